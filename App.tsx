@@ -5,20 +5,66 @@
 import React, { useState, ChangeEvent, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { generateDecadeImage } from './services/geminiService';
+import { getErrorCode } from './services/generationErrors';
 import PolaroidCard from './components/PolaroidCard';
-import { createAlbumPage } from './lib/albumUtils';
+import EraPicker from './components/EraPicker';
+import PromptSettingsPanel from './components/PromptSettingsPanel';
+import SessionHistory from './components/SessionHistory';
+import PhotoCropper from './components/PhotoCropper';
+import AlbumSettingsPanel from './components/AlbumSettingsPanel';
+import SubjectPanel from './components/SubjectPanel';
+import ReferenceLibraryPanel from './components/ReferenceLibraryPanel';
+import KioskSetup from './components/KioskSetup';
+import KioskPinPad from './components/KioskPinPad';
+import KioskAttract from './components/KioskAttract';
+import CameraSettingsPanel from './components/CameraSettingsPanel';
+import LiveFilterPreview from './components/LiveFilterPreview';
+import Lightbox from './components/Lightbox';
+import BatchMode from './components/BatchMode';
+import { exportAlbum, loadExportOptions, saveExportOptions } from './lib/albumExport';
+import type { AlbumExportOptions } from './lib/albumExport';
+import { downloadBlob, downloadUrl } from './lib/download';
+import { createAnimatedGif, createVideo, getSupportedVideoFormats } from './lib/animationExport';
+import { createSessionArchive } from './lib/sessionArchive';
+import { createGalleryHtml } from './lib/galleryExport';
+import { buildCaptionedPhotos, getCaptionText, getDateStamp, getHandwritingFont, loadCaptionStyle, saveCaptionStyle } from './lib/captions';
+import type { CaptionStyle, CaptionedPhoto, CardCaption } from './lib/captions';
+import { createRandomSeed, createSeededRandom, hashString } from './lib/random';
+import { getDefaultPlacement, getPlacementStyle, getTopZIndex, measurePlacement } from './lib/cardArrangement';
+import { getAlbumTheme, loadAlbumOptions, saveAlbumOptions } from './lib/albumLayouts';
+import type { AlbumOptions } from './lib/albumLayouts';
+import { createPolaroidImage } from './lib/albumUtils';
+import type { AlbumRenderOptions } from './lib/albumUtils';
+import { ACCEPTED_IMAGE_TYPES, preprocessImageFile, renderPreprocessed } from './lib/imagePreprocessing';
+import { ATTRACT_IMAGE_LIMIT, BURST_INTERVAL_MS, BURST_PICK_SECONDS, enterFullscreen, exitFullscreen, loadKioskActive, loadKioskSettings, saveKioskActive, saveKioskSettings } from './lib/kiosk';
+import type { KioskSettings } from './lib/kiosk';
+import { FLASH_LEAD_MS, buildVideoConstraints, getCaptureQuality, listVideoDevices, loadCameraSettings, saveCameraSettings, setTorch, switchFacingMode } from './lib/camera';
+import type { CameraSettings } from './lib/camera';
+import { isAbortError, sleep } from './lib/abort';
+import { primaryButtonClasses, secondaryButtonClasses } from './lib/buttonStyles';
+import { renderCroppedImage } from './lib/imageCrop';
+import type { CropState } from './lib/imageCrop';
+import { DEFAULT_ERAS, buildEraPrompts, createCustomEra, loadCustomEras, saveCustomEras, sortErasChronologically } from './lib/eraCatalog';
+import type { Era } from './lib/eraCatalog';
+import { loadPromptSettings, savePromptSettings } from './lib/promptTemplate';
+import type { PromptSettings } from './lib/promptTemplate';
+import { DEFAULT_SUBJECT_SETTINGS } from './lib/subjects';
+import type { SubjectSettings } from './lib/subjects';
+import { createReferenceImage, deleteReferenceImage, loadReferenceLibrary, resolveReferenceImages, saveReferenceImage } from './lib/referenceLibrary';
+import type { ReferenceImage, ReferenceLibrary } from './lib/referenceLibrary';
+import { createSessionId, deleteSession, getSession, listSessions, renameSession, saveSession } from './lib/sessionStore';
+import { JOB_PRIORITY, createGenerationQueue } from './lib/generationQueue';
+import type { QueueProgress } from './lib/generationQueue';
+import { getFavoriteIndex, getFavoriteVariant, normalizeGeneratedImage, toImageVariant, withGenerationError, withVariant } from './lib/variants';
+import type { CardPlacement, GeneratedImage, Session } from './types';
 
-const DECADES = ['1950s', '1960s', '1970s', '1980s', '1990s', '2000s'];
+type SessionInfo = Pick<Session, 'id' | 'name' | 'createdAt'> & { layoutSeed: number };
 
-// Pre-defined positions for a scattered look on desktop
-const POSITIONS = [
-    { top: '5%', left: '10%', rotate: -8 },
-    { top: '15%', left: '60%', rotate: 5 },
-    { top: '45%', left: '5%', rotate: 3 },
-    { top: '2%', left: '35%', rotate: 10 },
-    { top: '40%', left: '70%', rotate: -12 },
-    { top: '50%', left: '38%', rotate: -3 },
-];
+// Every save rewrites the source photo and all variants, so quick edits are batched into one
+const SESSION_SAVE_DELAY_MS = 1000;
+
+// A fixed seed keeps the intro animation the same on every visit
+const ghostRandom = createSeededRandom(hashString('past-forward:ghost-polaroids'));
 
 const GHOST_POLAROIDS_CONFIG = [
   { initial: { x: "-150%", y: "-100%", rotate: -30 }, transition: { delay: 0.2 } },
@@ -27,20 +73,7 @@ const GHOST_POLAROIDS_CONFIG = [
   { initial: { x: "180%", y: "90%", rotate: -20 }, transition: { delay: 0.8 } },
   { initial: { x: "0%", y: "-200%", rotate: 0 }, transition: { delay: 0.5 } },
   { initial: { x: "100%", y: "150%", rotate: 10 }, transition: { delay: 0.3 } },
-];
-
-const getPromptForDecade = (decade: string) => `Reimagine this photo to look like it was taken in the ${decade}. Modify everything in the image, including any people, clothing, hairstyles, and the background, to match the style and photo quality of that era. The output must be a clear, photorealistic image.`;
-
-
-type ImageStatus = 'pending' | 'done' | 'error';
-interface GeneratedImage {
-    status: ImageStatus;
-    url?: string;
-    error?: string;
-}
-
-const primaryButtonClasses = "font-permanent-marker text-xl text-center text-black bg-yellow-400 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-yellow-300 shadow-[2px_2px_0px_2px_rgba(0,0,0,0.2)] disabled:opacity-50 disabled:cursor-not-allowed";
-const secondaryButtonClasses = "font-permanent-marker text-xl text-center text-white bg-white/10 backdrop-blur-sm border-2 border-white/80 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:rotate-2 hover:bg-white hover:text-black";
+].map(config => ({ ...config, finalRotate: (ghostRandom() - 0.5) * 20 }));
 
 const useMediaQuery = (query: string) => {
     const [matches, setMatches] = useState(false);
@@ -56,33 +89,135 @@ const useMediaQuery = (query: string) => {
     return matches;
 };
 
+/**
+ * Calls `onTimeout` once nobody has touched, moved the pointer or typed for `timeoutMs`.
+ */
+const useInactivityTimeout = (timeoutMs: number, onTimeout: () => void, isActive: boolean) => {
+    const callbackRef = useRef(onTimeout);
+    callbackRef.current = onTimeout;
+    useEffect(() => {
+        if (!isActive) return;
+        let timer = window.setTimeout(() => callbackRef.current(), timeoutMs);
+        const restart = () => {
+            window.clearTimeout(timer);
+            timer = window.setTimeout(() => callbackRef.current(), timeoutMs);
+        };
+        const events = ['pointerdown', 'pointermove', 'keydown', 'wheel'] as const;
+        events.forEach(event => window.addEventListener(event, restart, { passive: true }));
+        return () => {
+            window.clearTimeout(timer);
+            events.forEach(event => window.removeEventListener(event, restart));
+        };
+    }, [timeoutMs, isActive]);
+};
+
 function App() {
     const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+    // The photo as uploaded or captured, before any crop; crops are always re-rendered from it
+    const [originalUpload, setOriginalUpload] = useState<string | null>(null);
+    const [cropState, setCropState] = useState<CropState | undefined>(undefined);
+    const [isCropping, setIsCropping] = useState<boolean>(false);
     const [generatedImages, setGeneratedImages] = useState<Record<string, GeneratedImage>>({});
+    // Which variant each card is currently showing; defaults to the favorite
+    const [viewedVariants, setViewedVariants] = useState<Record<string, number>>({});
+    // Where the user has dragged each desktop card, and where the cards were placed when they mounted
+    const [cardArrangement, setCardArrangement] = useState<Record<string, CardPlacement>>({});
+    const [restoredArrangement, setRestoredArrangement] = useState<Record<string, CardPlacement>>({});
+    const [cardCaptions, setCardCaptions] = useState<Record<string, CardCaption>>({});
+    // The era whose result is open full screen
+    const [lightboxEraId, setLightboxEraId] = useState<string | null>(null);
+    const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(() => loadCaptionStyle());
+    const [customEras, setCustomEras] = useState<Era[]>(() => loadCustomEras());
+    const [selectedEraIds, setSelectedEraIds] = useState<string[]>(() => DEFAULT_ERAS.map(era => era.id));
+    const [activeEras, setActiveEras] = useState<Era[]>([]);
+    const [promptSettings, setPromptSettings] = useState<PromptSettings>(() => loadPromptSettings());
+    const [subjectSettings, setSubjectSettings] = useState<SubjectSettings>(DEFAULT_SUBJECT_SETTINGS);
+    const [referenceLibrary, setReferenceLibrary] = useState<ReferenceLibrary>({});
+    const [albumOptions, setAlbumOptions] = useState<AlbumOptions>(() => loadAlbumOptions());
+    const [exportOptions, setExportOptions] = useState<AlbumExportOptions>(() => loadExportOptions());
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [isDownloading, setIsDownloading] = useState<boolean>(false);
-    const [appState, setAppState] = useState<'idle' | 'camera-active' | 'image-uploaded' | 'generating' | 'results-shown'>('idle');
+    const [animationExport, setAnimationExport] = useState<'gif' | 'video' | null>(null);
+    const [isArchiving, setIsArchiving] = useState<boolean>(false);
+    const [isExportingGallery, setIsExportingGallery] = useState<boolean>(false);
+    const [videoFormats] = useState(() => getSupportedVideoFormats());
+    const [appState, setAppState] = useState<'idle' | 'camera-active' | 'image-uploaded' | 'generating' | 'results-shown' | 'history' | 'batch'>('idle');
+    const [currentSession, setCurrentSession] = useState<SessionInfo | null>(null);
+    const [savedSessions, setSavedSessions] = useState<Session[]>([]);
+    const [isHistoryLoading, setIsHistoryLoading] = useState<boolean>(false);
     const [cameraError, setCameraError] = useState<string | null>(null);
+    const [isCameraReady, setIsCameraReady] = useState(false);
+    const [cameraSettings, setCameraSettings] = useState<CameraSettings>(() => loadCameraSettings());
+    const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
+    const [isFlashing, setIsFlashing] = useState(false);
+    // The era look previewed over the camera feed; photos are captured without it
+    const [liveFilterId, setLiveFilterId] = useState('none');
+    const [kioskSettings, setKioskSettings] = useState<KioskSettings>(() => loadKioskSettings());
+    const [isKioskMode, setIsKioskMode] = useState(() => loadKioskActive());
+    const [isKioskSetupOpen, setIsKioskSetupOpen] = useState(false);
+    const [isPinPadOpen, setIsPinPadOpen] = useState(false);
+    const [countdown, setCountdown] = useState<number | null>(null);
+    const [burstShots, setBurstShots] = useState<string[]>([]);
+    // Recent results cycled on the kiosk's attract screen
+    const [attractImages, setAttractImages] = useState<{ url: string; caption: string }[]>([]);
+    const captureAbortRef = useRef<AbortController | null>(null);
     const dragAreaRef = useRef<HTMLDivElement>(null);
     const videoRef = useRef<HTMLVideoElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    // The latest session state not yet written to IndexedDB
+    const pendingSessionRef = useRef<Session | null>(null);
+    const sessionSaveTimerRef = useRef<number | undefined>(undefined);
     const isMobile = useMediaQuery('(max-width: 768px)');
+    const [generationQueue] = useState(() => createGenerationQueue({ concurrency: 2 })); // Process two decades at a time
+    const [queueProgress, setQueueProgress] = useState<QueueProgress>(() => generationQueue.getProgress());
+    // Incremented whenever in-flight results stop being relevant, so late results are ignored
+    const batchRef = useRef(0);
+
+    useEffect(() => generationQueue.subscribe(event => setQueueProgress(event.progress)), [generationQueue]);
+
+    useEffect(() => {
+        loadReferenceLibrary()
+            .then(setReferenceLibrary)
+            .catch(err => console.error("Failed to load reference images:", err));
+    }, []);
+
+    const eraCatalog = [...DEFAULT_ERAS, ...customEras];
+    const previewEra = eraCatalog.find(era => selectedEraIds.includes(era.id));
 
     useEffect(() => {
         let stream: MediaStream | null = null;
+        let isCancelled = false;
         const videoElement = videoRef.current;
     
         const enableCamera = async () => {
             if (appState === 'camera-active') {
+                setCameraError(null);
                 try {
-                    stream = await navigator.mediaDevices.getUserMedia({
-                        video: { facingMode: 'user' },
+                    const newStream = await navigator.mediaDevices.getUserMedia({
+                        video: buildVideoConstraints(cameraSettings),
                         audio: false,
                     });
+                    // The settings changed or the camera was closed while waiting for permission
+                    if (isCancelled) {
+                        newStream.getTracks().forEach(track => track.stop());
+                        return;
+                    }
+                    stream = newStream;
+                    streamRef.current = stream;
                     if (videoElement) {
                         videoElement.srcObject = stream;
                     }
+                    listVideoDevices()
+                        .then(devices => { if (!isCancelled) setVideoDevices(devices); })
+                        .catch(err => console.error("Failed to list cameras:", err));
                 } catch (err) {
+                    if (isCancelled) return;
+                    // A remembered camera may have been unplugged; fall back to the front or back camera
+                    if (cameraSettings.deviceId && err instanceof Error && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError')) {
+                        setCameraSettings(prev => ({ ...prev, deviceId: undefined }));
+                        return;
+                    }
                     console.error("Error accessing camera:", err);
                     let message = "Could not access camera. Please check browser permissions and try again.";
                     if (err instanceof Error) {
@@ -100,18 +235,63 @@ function App() {
         enableCamera();
     
         return () => {
+            isCancelled = true;
             if (stream) {
                 stream.getTracks().forEach(track => track.stop());
             }
+            streamRef.current = null;
             if (videoElement) {
                 videoElement.srcObject = null;
             }
+            setIsCameraReady(false);
         };
-    }, [appState]);
+    }, [appState, cameraSettings.deviceId, cameraSettings.facingMode, cameraSettings.resolutionId]);
+
+    const flushSessionSave = () => {
+        window.clearTimeout(sessionSaveTimerRef.current);
+        const session = pendingSessionRef.current;
+        pendingSessionRef.current = null;
+        if (session) saveSession(session).catch(err => console.error("Failed to save session:", err));
+    };
+
+    // Persist the current session whenever it changes, once the changes pause
+    useEffect(() => {
+        if (!currentSession || !uploadedImage || activeEras.length === 0) return;
+        // Switching sessions writes the previous one's last changes right away instead of dropping them
+        if (pendingSessionRef.current && pendingSessionRef.current.id !== currentSession.id) flushSessionSave();
+        pendingSessionRef.current = {
+            ...currentSession,
+            updatedAt: Date.now(),
+            sourceImage: uploadedImage,
+            eras: activeEras,
+            results: generatedImages,
+            promptSettings,
+            subject: subjectSettings,
+            arrangement: cardArrangement,
+            captions: cardCaptions,
+        };
+        window.clearTimeout(sessionSaveTimerRef.current);
+        sessionSaveTimerRef.current = window.setTimeout(flushSessionSave, SESSION_SAVE_DELAY_MS);
+    }, [currentSession, generatedImages, activeEras, promptSettings, subjectSettings, cardArrangement, cardCaptions]);
+
+    // Don't lose the last changes when the tab is closed during the delay
+    useEffect(() => {
+        window.addEventListener('pagehide', flushSessionSave);
+        return () => window.removeEventListener('pagehide', flushSessionSave);
+    }, []);
+
+    const setSourcePhoto = (dataUrl: string | null) => {
+        setUploadedImage(dataUrl);
+        setOriginalUpload(dataUrl);
+        setCropState(undefined);
+        setIsCropping(false);
+        // Marked positions belong to the previous photo
+        setSubjectSettings(prev => ({ ...prev, markers: [] }));
+    };
 
     const handleOpenCamera = () => {
         setCameraError(null);
-        setUploadedImage(null); // Clear previous capture
+        setSourcePhoto(null); // Clear previous capture
         setAppState('camera-active');
     };
 
@@ -119,86 +299,251 @@ function App() {
         fileInputRef.current?.click();
     };
 
-    const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
         if (event.target.files && event.target.files[0]) {
             const file = event.target.files[0];
-            const reader = new FileReader();
-            reader.onload = (e) => {
-                if (e.target?.result) {
-                    setUploadedImage(e.target.result as string);
-                    setAppState('image-uploaded');
-                }
-            };
-            reader.readAsDataURL(file);
+            // Allow picking the same file again after an error
+            event.target.value = '';
+            try {
+                const dataUrl = await preprocessImageFile(file);
+                setSourcePhoto(dataUrl);
+                setAppState('image-uploaded');
+            } catch (err) {
+                console.error("Failed to read uploaded image:", err);
+                alert("Sorry, that photo could not be read. Please try a JPEG, PNG, WebP or HEIC image.");
+            }
         }
     };
 
-    const handleSnapPhoto = () => {
+    const handleCameraSettingsChange = (settings: CameraSettings) => {
+        setCameraSettings(settings);
+        saveCameraSettings(settings);
+    };
+
+    const captureFrame = (): string | null => {
         const video = videoRef.current;
-        if (!video) return;
-    
-        const canvas = document.createElement('canvas');
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        const context = canvas.getContext('2d');
-        if (context) {
-            // Draw the raw (unmirrored) video frame to the canvas
-            context.drawImage(video, 0, 0, canvas.width, canvas.height);
-            const dataUrl = canvas.toDataURL('image/jpeg');
+        if (!video || !video.videoWidth) return null;
+        try {
+            // Saved the way round the preview shows it, downscaled like an upload
+            return renderPreprocessed(
+                video,
+                video.videoWidth,
+                video.videoHeight,
+                getCaptureQuality(cameraSettings.qualityId).preprocess,
+                { mirror: cameraSettings.mirror },
+            );
+        } catch (err) {
+            console.error("Failed to capture photo:", err);
+            return null;
+        }
+    };
+
+    /**
+     * Captures a frame, lighting it first when the flash is on.
+     */
+    const takePhoto = async (): Promise<string | null> => {
+        if (!cameraSettings.flash) return captureFrame();
+        const track = streamRef.current?.getVideoTracks()[0];
+        const usesTorch = await setTorch(track, true);
+        if (!usesTorch) setIsFlashing(true);
+        try {
+            await sleep(FLASH_LEAD_MS);
+            return captureFrame();
+        } finally {
+            if (usesTorch) await setTorch(track, false);
+            setIsFlashing(false);
+        }
+    };
+
+    /**
+     * Shows a countdown over the camera preview, one number per second.
+     */
+    const runCountdown = async (seconds: number, signal: AbortSignal) => {
+        try {
+            for (let remaining = seconds; remaining > 0; remaining--) {
+                setCountdown(remaining);
+                await sleep(1000, signal);
+            }
+        } finally {
+            setCountdown(null);
+        }
+    };
+
+    const handleSnapPhoto = async () => {
+        if (captureAbortRef.current) return;
+        const controller = new AbortController();
+        captureAbortRef.current = controller;
+        try {
+            await runCountdown(cameraSettings.timerSeconds, controller.signal);
+            const dataUrl = await takePhoto();
+            if (dataUrl) setSourcePhoto(dataUrl);
+        } catch (err) {
+            if (!isAbortError(err)) throw err;
+        } finally {
+            if (captureAbortRef.current === controller) captureAbortRef.current = null;
+        }
+    };
+
+    const handleApplyCrop = async (crop: CropState) => {
+        if (!originalUpload) return;
+        try {
+            const dataUrl = await renderCroppedImage(originalUpload, crop);
             setUploadedImage(dataUrl);
+            setCropState(crop);
+            setIsCropping(false);
+            setSubjectSettings(prev => ({ ...prev, markers: [] }));
+        } catch (err) {
+            console.error("Failed to crop photo:", err);
+            alert("Sorry, the photo could not be cropped. Please try again.");
         }
     };
 
-    const handleGenerateClick = async () => {
-        if (!uploadedImage) return;
+    const handleToggleEra = (id: string) => {
+        setSelectedEraIds(prev => prev.includes(id) ? prev.filter(eraId => eraId !== id) : [...prev, id]);
+    };
 
-        setIsLoading(true);
-        setAppState('generating');
-        
-        const initialImages: Record<string, GeneratedImage> = {};
-        DECADES.forEach(decade => {
-            initialImages[decade] = { status: 'pending' };
-        });
-        setGeneratedImages(initialImages);
+    const handleAddEra = (label: string, promptTemplate?: string) => {
+        const era = createCustomEra(label, eraCatalog.map(e => e.id), promptTemplate);
+        const updated = [...customEras, era];
+        setCustomEras(updated);
+        saveCustomEras(updated);
+        setSelectedEraIds(prev => [...prev, era.id]);
+    };
 
-        const concurrencyLimit = 2; // Process two decades at a time
-        const decadesQueue = [...DECADES];
+    const handleRemoveEra = (id: string) => {
+        const updated = customEras.filter(era => era.id !== id);
+        setCustomEras(updated);
+        saveCustomEras(updated);
+        setSelectedEraIds(prev => prev.filter(eraId => eraId !== id));
+    };
 
-        const processDecade = async (decade: string) => {
-            try {
-                const prompt = getPromptForDecade(decade);
-                const resultUrl = await generateDecadeImage(uploadedImage, prompt);
-                setGeneratedImages(prev => ({
-                    ...prev,
-                    [decade]: { status: 'done', url: resultUrl },
-                }));
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-                setGeneratedImages(prev => ({
-                    ...prev,
-                    [decade]: { status: 'error', error: errorMessage },
-                }));
+    const handlePromptSettingsChange = (settings: PromptSettings) => {
+        setPromptSettings(settings);
+        savePromptSettings(settings);
+    };
+
+    const handleAddReferences = (eraId: string, images: { name: string; dataUrl: string }[]) => {
+        const added = images.map(({ name, dataUrl }) => createReferenceImage(eraId, name, dataUrl));
+        setReferenceLibrary(prev => ({ ...prev, [eraId]: [...(prev[eraId] ?? []), ...added] }));
+        Promise.all(added.map(saveReferenceImage)).catch(err => console.error("Failed to save reference images:", err));
+    };
+
+    const handleToggleReference = (image: ReferenceImage) => {
+        const updated = { ...image, enabled: !image.enabled };
+        setReferenceLibrary(prev => ({ ...prev, [image.eraId]: (prev[image.eraId] ?? []).map(i => i.id === image.id ? updated : i) }));
+        saveReferenceImage(updated).catch(err => console.error("Failed to save reference image:", err));
+    };
+
+    const handleRemoveReference = (image: ReferenceImage) => {
+        setReferenceLibrary(prev => ({ ...prev, [image.eraId]: (prev[image.eraId] ?? []).filter(i => i.id !== image.id) }));
+        deleteReferenceImage(image.id).catch(err => console.error("Failed to delete reference image:", err));
+    };
+
+    const handleAlbumOptionsChange = (options: AlbumOptions) => {
+        setAlbumOptions(options);
+        saveAlbumOptions(options);
+    };
+
+    const getAlbumRenderOptions = (): AlbumRenderOptions => ({
+        ...albumOptions,
+        seed: currentSession?.layoutSeed ?? 0,
+        captionStyle,
+    });
+
+    const handleCaptionStyleChange = (style: CaptionStyle) => {
+        setCaptionStyle(style);
+        saveCaptionStyle(style);
+    };
+
+    const handleCaptionChange = (eraId: string, caption: CardCaption) => {
+        setCardCaptions(prev => ({ ...prev, [eraId]: caption }));
+    };
+
+    const handleShuffleLayout = () => {
+        setCurrentSession(prev => prev && { ...prev, layoutSeed: createRandomSeed() });
+    };
+
+    const handleExportOptionsChange = (options: AlbumExportOptions) => {
+        setExportOptions(options);
+        saveExportOptions(options);
+    };
+
+    /**
+     * Queues one generation for an era and appends the result as a new variant.
+     * Results are dropped if the batch was superseded (a new Generate, Start Over or an opened session).
+     * @returns Whether a new variant was added.
+     */
+    const runEraJob = async (era: Era, sourceImage: string, priority: number, batch: number): Promise<boolean> => {
+        const decade = era.id;
+        try {
+            const result = await generationQueue.enqueue(
+                async signal => generateDecadeImage(sourceImage, era, promptSettings, {
+                    signal,
+                    subject: subjectSettings,
+                    referenceImages: await resolveReferenceImages(era, referenceLibrary),
+                }),
+                { id: decade, priority },
+            );
+            if (batch !== batchRef.current) return false;
+            const variant = toImageVariant(result);
+            setGeneratedImages(prev => ({ ...prev, [decade]: withVariant(prev[decade], variant) }));
+            return true;
+        } catch (err) {
+            if (batch !== batchRef.current) return false;
+            setGeneratedImages(prev => ({ ...prev, [decade]: withGenerationError(prev[decade], err) }));
+            if (getErrorCode(err) !== 'CANCELLED') {
                 console.error(`Failed to generate image for ${decade}:`, err);
             }
-        };
+            return false;
+        }
+    };
 
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (decadesQueue.length > 0) {
-                const decade = decadesQueue.shift();
-                if (decade) {
-                    await processDecade(decade);
-                }
-            }
+    const handleGenerateClick = () => {
+        if (uploadedImage) startGeneration(uploadedImage);
+    };
+
+    const startGeneration = async (sourceImage: string) => {
+        // Keep catalog order regardless of the order eras were toggled in
+        const eras = eraCatalog.filter(era => selectedEraIds.includes(era.id));
+        if (eras.length === 0) return;
+
+        // Drop anything still running from a previous batch
+        const batch = ++batchRef.current;
+        generationQueue.cancelAll();
+        generationQueue.clearHistory();
+
+        setIsLoading(true);
+        setAppState('generating');
+        setActiveEras(eras);
+        const createdAt = Date.now();
+        setCurrentSession({
+            id: createSessionId(),
+            name: `Session ${new Date(createdAt).toLocaleString()}`,
+            createdAt,
+            layoutSeed: createRandomSeed(),
         });
+        
+        const initialImages: Record<string, GeneratedImage> = {};
+        eras.forEach(era => {
+            initialImages[era.id] = { status: 'pending', variants: [] };
+        });
+        setGeneratedImages(initialImages);
+        setViewedVariants({});
+        setCardArrangement({});
+        setRestoredArrangement({});
+        setCardCaptions({});
 
-        await Promise.all(workers);
+        generationQueue.resume();
+        await Promise.all(eras.map(era => runEraJob(era, sourceImage, JOB_PRIORITY.batch, batch)));
 
+        if (batch !== batchRef.current) return;
         setIsLoading(false);
         setAppState('results-shown');
     };
 
     const handleRegenerateDecade = async (decade: string) => {
-        if (!uploadedImage) return;
+        const era = activeEras.find(e => e.id === decade);
+        if (!uploadedImage || !era) return;
 
         // Prevent re-triggering if a generation is already in progress
         if (generatedImages[decade]?.status === 'pending') {
@@ -207,72 +552,293 @@ function App() {
         
         console.log(`Regenerating image for ${decade}...`);
 
-        // Set the specific decade to 'pending' to show the loading spinner
+        // Set the specific decade to 'pending' to show the loading spinner, keeping earlier variants
         setGeneratedImages(prev => ({
             ...prev,
-            [decade]: { status: 'pending' },
+            [decade]: { ...prev[decade], status: 'pending', error: undefined, errorCode: undefined, variants: prev[decade]?.variants ?? [] },
         }));
 
-        // Call the generation service for the specific decade
-        try {
-            const prompt = getPromptForDecade(decade);
-            const resultUrl = await generateDecadeImage(uploadedImage, prompt);
-            setGeneratedImages(prev => ({
-                ...prev,
-                [decade]: { status: 'done', url: resultUrl },
-            }));
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            setGeneratedImages(prev => ({
-                ...prev,
-                [decade]: { status: 'error', error: errorMessage },
-            }));
-            console.error(`Failed to regenerate image for ${decade}:`, err);
+        // User-triggered regenerations jump ahead of any remaining batch jobs
+        const succeeded = await runEraJob(era, uploadedImage, JOB_PRIORITY.user, batchRef.current);
+        if (succeeded) {
+            // Show the new variant; the favorite is left as the user picked it.
+            // Only one job per era can be in flight, so the pre-regeneration count is current.
+            setViewedVariants(prev => ({ ...prev, [decade]: generatedImages[decade]?.variants.length ?? 0 }));
         }
     };
+
+    const handlePauseGeneration = () => {
+        if (queueProgress.paused) {
+            generationQueue.resume();
+        } else {
+            generationQueue.pause();
+        }
+    };
+
+    const handleCancelGeneration = () => {
+        generationQueue.cancelAll();
+        generationQueue.resume();
+    };
     
     const handleReset = () => {
-        setUploadedImage(null);
+        batchRef.current++;
+        generationQueue.cancelAll();
+        setSourcePhoto(null);
         setGeneratedImages({});
+        setViewedVariants({});
+        setCardArrangement({});
+        setRestoredArrangement({});
+        setCardCaptions({});
+        setLightboxEraId(null);
+        setActiveEras([]);
+        setCurrentSession(null);
         setAppState('idle');
     };
 
-    const handleDownloadIndividualImage = (decade: string) => {
-        const image = generatedImages[decade];
-        if (image?.status === 'done' && image.url) {
-            const link = document.createElement('a');
-            link.href = image.url;
-            link.download = `past-forward-${decade}.jpg`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-        }
+    const cancelCapture = () => {
+        captureAbortRef.current?.abort();
+        captureAbortRef.current = null;
+        setCountdown(null);
+        setBurstShots([]);
     };
 
-    const handleDownloadAlbum = async () => {
-        setIsDownloading(true);
+    const handleUseShot = (dataUrl: string) => {
+        setBurstShots([]);
+        setSourcePhoto(dataUrl);
+        startGeneration(dataUrl);
+    };
+
+    /**
+     * Counts down, then takes a single shot or a burst. A single shot goes straight to
+     * generation; a burst is shown for the guest to pick from.
+     */
+    const runKioskCapture = async () => {
+        const controller = new AbortController();
+        captureAbortRef.current = controller;
         try {
-            const imageData = Object.entries(generatedImages)
-                .filter(([, image]) => image.status === 'done' && image.url)
-                .reduce((acc, [decade, image]) => {
-                    acc[decade] = image!.url!;
-                    return acc;
-                }, {} as Record<string, string>);
-
-            if (Object.keys(imageData).length < DECADES.length) {
-                alert("Please wait for all images to finish generating before downloading the album.");
-                return;
+            await runCountdown(kioskSettings.countdownSeconds, controller.signal);
+            const shots: string[] = [];
+            for (let i = 0; i < kioskSettings.burstCount; i++) {
+                if (i > 0) await sleep(BURST_INTERVAL_MS, controller.signal);
+                const shot = await takePhoto();
+                if (shot) shots.push(shot);
+            }
+            if (shots.length === 1) {
+                handleUseShot(shots[0]);
+            } else if (shots.length > 1) {
+                setBurstShots(shots);
             }
+        } catch (err) {
+            if (!isAbortError(err)) throw err;
+        } finally {
+            if (captureAbortRef.current === controller) captureAbortRef.current = null;
+        }
+    };
+
+    const handleStartKiosk = (settings: KioskSettings) => {
+        setKioskSettings(settings);
+        saveKioskSettings(settings);
+        saveKioskActive(true);
+        setIsKioskSetupOpen(false);
+        setIsKioskMode(true);
+        enterFullscreen();
+        handleReset();
+    };
+
+    const handleKioskStart = () => {
+        // Full screen may have been left with Escape, or lost on reload
+        enterFullscreen();
+        handleOpenCamera();
+    };
+
+    const handleKioskReset = () => {
+        // Keep the latest photos for the attract loop
+        const latest = activeEras.flatMap(era => {
+            const favorite = getFavoriteVariant(generatedImages[era.id]);
+            return favorite ? [{ url: favorite.url, caption: getCaptionText(era, cardCaptions[era.id]) }] : [];
+        });
+        if (latest.length > 0) {
+            setAttractImages(prev => [...latest, ...prev].slice(0, ATTRACT_IMAGE_LIMIT));
+        }
+        cancelCapture();
+        handleReset();
+    };
+
+    const handleUnlockKiosk = () => {
+        setIsPinPadOpen(false);
+        setIsKioskMode(false);
+        saveKioskActive(false);
+        exitFullscreen();
+        cancelCapture();
+        handleReset();
+    };
+
+    // The kiosk starts the countdown as soon as the camera is live
+    useEffect(() => {
+        if (isKioskMode && appState === 'camera-active' && isCameraReady && !uploadedImage && burstShots.length === 0 && !captureAbortRef.current) {
+            runKioskCapture();
+        }
+    }, [isKioskMode, appState, isCameraReady, uploadedImage, burstShots.length]);
+
+    // Guests who walk away from a burst get the first shot
+    useEffect(() => {
+        if (!isKioskMode || burstShots.length === 0) return;
+        const timer = setTimeout(() => handleUseShot(burstShots[0]), BURST_PICK_SECONDS * 1000);
+        return () => clearTimeout(timer);
+    }, [isKioskMode, burstShots]);
+
+    // No right-click menus on a locked kiosk
+    useEffect(() => {
+        if (!isKioskMode) return;
+        const preventContextMenu = (e: MouseEvent) => e.preventDefault();
+        window.addEventListener('contextmenu', preventContextMenu);
+        return () => window.removeEventListener('contextmenu', preventContextMenu);
+    }, [isKioskMode]);
+
+    useInactivityTimeout(
+        kioskSettings.resetAfterSeconds * 1000,
+        handleKioskReset,
+        isKioskMode && !isPinPadOpen && (appState === 'results-shown' || appState === 'camera-active'),
+    );
+
+    const refreshSessions = async () => {
+        setIsHistoryLoading(true);
+        try {
+            setSavedSessions(await listSessions());
+        } catch (err) {
+            console.error("Failed to load sessions:", err);
+            setSavedSessions([]);
+        } finally {
+            setIsHistoryLoading(false);
+        }
+    };
+
+    const handleOpenHistory = () => {
+        setAppState('history');
+        refreshSessions();
+    };
+
+    const handleOpenSession = async (id: string) => {
+        try {
+            const session = await getSession(id);
+            if (!session) return;
+
+            // Anything still pending was interrupted by a refresh; let the user retry it
+            const results: Record<string, GeneratedImage> = {};
+            Object.entries(session.results).forEach(([eraId, stored]) => {
+                const result = normalizeGeneratedImage(stored);
+                results[eraId] = result.status === 'pending'
+                    ? {
+                        ...result,
+                        status: result.variants.length ? 'done' : 'error',
+                        error: 'Generation was interrupted.',
+                        errorCode: 'CANCELLED',
+                    }
+                    : result;
+            });
+
+            batchRef.current++;
+            generationQueue.cancelAll();
+            setSourcePhoto(session.sourceImage);
+            setActiveEras(session.eras);
+            setGeneratedImages(results);
+            setViewedVariants({});
+            setCardArrangement(session.arrangement ?? {});
+            setRestoredArrangement(session.arrangement ?? {});
+            setCardCaptions(session.captions ?? {});
+            handlePromptSettingsChange(session.promptSettings);
+            setSubjectSettings(session.subject ?? DEFAULT_SUBJECT_SETTINGS);
+            setCurrentSession({
+                id: session.id,
+                name: session.name,
+                createdAt: session.createdAt,
+                // Older sessions get a seed derived from their id, so they still render consistently
+                layoutSeed: session.layoutSeed ?? hashString(session.id),
+            });
+            setAppState('results-shown');
+        } catch (err) {
+            console.error("Failed to open session:", err);
+            alert("Sorry, that session could not be opened.");
+        }
+    };
+
+    const handleRenameSession = async (id: string, name: string) => {
+        // A save still waiting to be written would otherwise put the old name back
+        if (pendingSessionRef.current?.id === id) pendingSessionRef.current = { ...pendingSessionRef.current, name };
+        try {
+            await renameSession(id, name);
+            setCurrentSession(prev => prev?.id === id ? { ...prev, name } : prev);
+            await refreshSessions();
+        } catch (err) {
+            console.error("Failed to rename session:", err);
+        }
+    };
+
+    const handleDeleteSession = async (id: string) => {
+        // ...or bring the deleted session back
+        if (pendingSessionRef.current?.id === id) pendingSessionRef.current = null;
+        try {
+            await deleteSession(id);
+            await refreshSessions();
+        } catch (err) {
+            console.error("Failed to delete session:", err);
+        }
+    };
 
-            const albumDataUrl = await createAlbumPage(imageData);
+    const handleViewVariant = (decade: string, index: number) => {
+        setViewedVariants(prev => ({ ...prev, [decade]: index }));
+    };
 
-            const link = document.createElement('a');
-            link.href = albumDataUrl;
-            link.download = 'past-forward-album.jpg';
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+    const handleFavoriteVariant = (decade: string, index: number) => {
+        setGeneratedImages(prev => ({
+            ...prev,
+            [decade]: { ...prev[decade], favoriteIndex: index },
+        }));
+    };
+
+    const handleDownloadIndividualImage = async (decade: string) => {
+        const favorite = getFavoriteVariant(generatedImages[decade]);
+        const era = activeEras.find(e => e.id === decade);
+        if (!favorite || !era) return;
+        try {
+            // Downloaded on its own, the photo keeps its caption and date stamp
+            const caption = cardCaptions[decade];
+            const dataUrl = await createPolaroidImage(favorite.url, getCaptionText(era, caption), captionStyle, getDateStamp(era, caption, captionStyle));
+            downloadUrl(dataUrl, `past-forward-${decade}.jpg`);
+        } catch (error) {
+            console.error("Failed to create polaroid image:", error);
+            alert("Sorry, there was an error preparing your photo. Please try again.");
+        }
+    };
+
+    /**
+     * Collects each era's favorite variant with its caption, date stamp and board spot, in the
+     * order given, or returns null if some eras haven't finished yet.
+     */
+    const getFavoritePhotos = (eras: Era[]): CaptionedPhoto[] | null => {
+        const favorites = eras
+            .map(era => ({
+                era,
+                url: getFavoriteVariant(generatedImages[era.id])?.url,
+                placement: cardArrangement[era.id] ?? getDefaultPlacement(era, activeEras.indexOf(era)),
+            }))
+            .filter((entry): entry is { era: Era; url: string; placement: CardPlacement } => !!entry.url);
+
+        if (favorites.length < eras.length) return null;
+        return buildCaptionedPhotos(favorites, cardCaptions, captionStyle);
+    };
+
+    const handleDownloadAlbum = async () => {
+        const photos = getFavoritePhotos(activeEras);
+        if (!photos) {
+            alert("Please wait for all images to finish generating before downloading the album.");
+            return;
+        }
 
+        setIsDownloading(true);
+        try {
+            const { blob, filename } = await exportAlbum(photos, getAlbumRenderOptions(), exportOptions);
+            downloadBlob(blob, filename);
         } catch (error) {
             console.error("Failed to create or download album:", error);
             alert("Sorry, there was an error creating your album. Please try again.");
@@ -281,6 +847,144 @@ function App() {
         }
     };
 
+    const handleDownloadAll = async () => {
+        if (!uploadedImage) return;
+
+        setIsArchiving(true);
+        try {
+            // The album is only included once every era has an image to put in it
+            const photos = getFavoritePhotos(activeEras);
+            const album = photos ? await exportAlbum(photos, getAlbumRenderOptions(), exportOptions) : undefined;
+
+            const archive = await createSessionArchive({
+                name: currentSession?.name ?? 'Past Forward',
+                sourceImage: uploadedImage,
+                eras: activeEras,
+                results: generatedImages,
+                promptSettings,
+                subject: subjectSettings,
+                captions: cardCaptions,
+                album,
+            });
+            downloadBlob(archive, 'past-forward.zip');
+        } catch (error) {
+            console.error("Failed to create archive:", error);
+            alert("Sorry, there was an error packaging your photos. Please try again.");
+        } finally {
+            setIsArchiving(false);
+        }
+    };
+
+    const handleDownloadGallery = async () => {
+        const photos = activeEras.flatMap((era, index) => {
+            const favorite = getFavoriteVariant(generatedImages[era.id]);
+            return favorite ? [{
+                caption: getCaptionText(era, cardCaptions[era.id]),
+                imageUrl: favorite.url,
+                dateStamp: getDateStamp(era, cardCaptions[era.id], captionStyle) || undefined,
+                placement: cardArrangement[era.id] ?? getDefaultPlacement(era, index),
+            }] : [];
+        });
+        if (photos.length === 0) return;
+
+        setIsExportingGallery(true);
+        try {
+            const gallery = await createGalleryHtml({
+                title: albumOptions.title,
+                subtitle: albumOptions.subtitle,
+                photos,
+                captionStyle,
+                theme: getAlbumTheme(albumOptions.themeId),
+            });
+            downloadBlob(gallery, 'past-forward-gallery.html');
+        } catch (error) {
+            console.error("Failed to create gallery:", error);
+            alert("Sorry, there was an error creating your gallery. Please try again.");
+        } finally {
+            setIsExportingGallery(false);
+        }
+    };
+
+    const handleDownloadAnimation = async (kind: 'gif' | 'video') => {
+        // Play the eras in time order, whatever order they were picked in
+        const photos = getFavoritePhotos(sortErasChronologically(activeEras));
+        if (!photos) {
+            alert("Please wait for all images to finish generating before downloading the album.");
+            return;
+        }
+
+        setAnimationExport(kind);
+        try {
+            const options = { transition: exportOptions.transition, captionStyle };
+            if (kind === 'gif') {
+                downloadBlob(await createAnimatedGif(photos, options), 'past-forward.gif');
+            } else {
+                const format = videoFormats.includes(exportOptions.videoFormat) ? exportOptions.videoFormat : videoFormats[0];
+                downloadBlob(await createVideo(photos, format, options), `past-forward.${format}`);
+            }
+        } catch (error) {
+            console.error(`Failed to create ${kind}:`, error);
+            alert(`Sorry, there was an error creating your ${kind === 'gif' ? 'GIF' : 'video'}. Please try again.`);
+        } finally {
+            setAnimationExport(null);
+        }
+    };
+
+    // Where a desktop card sits when it mounts: its saved spot, or its era's default
+    const getMountPlacement = (era: Era, index: number): CardPlacement =>
+        restoredArrangement[era.id] ?? getDefaultPlacement(era, index);
+
+    const handleCardDragStart = (eraId: string) => {
+        const index = activeEras.findIndex(era => era.id === eraId);
+        if (index === -1) return;
+        // Bring the picked-up card above the others
+        setCardArrangement(prev => ({
+            ...prev,
+            [eraId]: { ...(prev[eraId] ?? getMountPlacement(activeEras[index], index)), zIndex: getTopZIndex(prev) },
+        }));
+    };
+
+    const handleCardDragSettled = (eraId: string, rect: DOMRect) => {
+        const index = activeEras.findIndex(era => era.id === eraId);
+        const board = dragAreaRef.current;
+        if (index === -1 || !board) return;
+        const { rotation } = getMountPlacement(activeEras[index], index);
+        setCardArrangement(prev => ({
+            ...prev,
+            [eraId]: measurePlacement(rect, board.getBoundingClientRect(), rotation, prev[eraId]?.zIndex ?? getTopZIndex(prev)),
+        }));
+    };
+
+    const getEraCardProps = (era: Era) => {
+        const image = generatedImages[era.id];
+        const favoriteIndex = getFavoriteIndex(image);
+        const viewedIndex = viewedVariants[era.id] ?? favoriteIndex;
+        return {
+            id: era.id,
+            caption: getCaptionText(era, cardCaptions[era.id]),
+            captionFont: getHandwritingFont(captionStyle.fontId),
+            dateStamp: captionStyle.showDateStamp ? getDateStamp(era, cardCaptions[era.id], captionStyle) : undefined,
+            onCaptionChange: handleCaptionChange,
+            status: image?.status || 'pending',
+            imageUrl: image?.variants[viewedIndex]?.url,
+            error: image?.error,
+            errorCode: image?.errorCode,
+            variantCount: image?.variants.length ?? 0,
+            variantIndex: viewedIndex,
+            favoriteIndex,
+            onVariantChange: handleViewVariant,
+            onFavorite: handleFavoriteVariant,
+            onShake: handleRegenerateDecade,
+            onDownload: isKioskMode ? undefined : handleDownloadIndividualImage,
+            originalUrl: uploadedImage ?? undefined,
+            onOpenLightbox: setLightboxEraId,
+            isMobile,
+        } as const;
+    };
+
+    const lightboxEra = lightboxEraId ? activeEras.find(era => era.id === lightboxEraId) : undefined;
+    const lightboxImageUrl = lightboxEra && getEraCardProps(lightboxEra).imageUrl;
+
     return (
         <main className="bg-black text-neutral-200 min-h-screen w-full flex flex-col items-center justify-center p-4 overflow-hidden relative">
             <div className="absolute top-0 left-0 w-full h-full bg-grid-white/[0.05]"></div>
@@ -291,7 +995,15 @@ function App() {
                     <p className="font-permanent-marker text-neutral-300 mt-2 text-xl tracking-wide">Generate yourself through the decades.</p>
                 </div>
 
-                {appState === 'idle' && (
+                {appState === 'idle' && isKioskMode && (
+                    <KioskAttract
+                        images={attractImages}
+                        captions={eraCatalog.filter(era => selectedEraIds.includes(era.id)).map(era => era.caption)}
+                        onStart={handleKioskStart}
+                    />
+                )}
+
+                {appState === 'idle' && !isKioskMode && (
                      <div className="relative flex flex-col items-center justify-center w-full">
                         {/* Ghost polaroids for intro animation */}
                         {GHOST_POLAROIDS_CONFIG.map((config, index) => (
@@ -300,7 +1012,7 @@ function App() {
                                 className="absolute w-80 h-[26rem] rounded-md p-4 bg-neutral-100/10 blur-sm"
                                 initial={config.initial}
                                 animate={{
-                                    x: "0%", y: "0%", rotate: (Math.random() - 0.5) * 20,
+                                    x: "0%", y: "0%", rotate: config.finalRotate,
                                     scale: 0,
                                     opacity: 0,
                                 }}
@@ -321,7 +1033,7 @@ function App() {
                                 type="file"
                                 ref={fileInputRef}
                                 onChange={handleFileChange}
-                                accept="image/png, image/jpeg, image/webp"
+                                accept={ACCEPTED_IMAGE_TYPES}
                                 className="hidden"
                                 aria-hidden="true"
                              />
@@ -332,9 +1044,80 @@ function App() {
                                 Upload Photo
                              </button>
                         </motion.div>
+                        <motion.button
+                             initial={{ opacity: 0 }}
+                             animate={{ opacity: 1 }}
+                             transition={{ delay: 2.4, duration: 0.8 }}
+                             onClick={handleOpenHistory}
+                             className="mt-6 text-sm text-neutral-400 hover:text-white underline underline-offset-4"
+                        >
+                             View past sessions
+                        </motion.button>
+                        <motion.button
+                             initial={{ opacity: 0 }}
+                             animate={{ opacity: 1 }}
+                             transition={{ delay: 2.4, duration: 0.8 }}
+                             onClick={() => setAppState('batch')}
+                             className="mt-2 text-sm text-neutral-400 hover:text-white underline underline-offset-4"
+                        >
+                             Batch mode
+                        </motion.button>
+                        <motion.button
+                             initial={{ opacity: 0 }}
+                             animate={{ opacity: 1 }}
+                             transition={{ delay: 2.4, duration: 0.8 }}
+                             onClick={() => setIsKioskSetupOpen(true)}
+                             className="mt-2 text-sm text-neutral-400 hover:text-white underline underline-offset-4"
+                        >
+                             Kiosk mode
+                        </motion.button>
                     </div>
                 )}
 
+                {appState === 'history' && (
+                    <SessionHistory
+                        sessions={savedSessions}
+                        isLoading={isHistoryLoading}
+                        onOpen={handleOpenSession}
+                        onRename={handleRenameSession}
+                        onDelete={handleDeleteSession}
+                        onClose={() => setAppState('idle')}
+                    />
+                )}
+
+                {appState === 'batch' && (
+                    <BatchMode
+                        eras={eraCatalog.filter(era => selectedEraIds.includes(era.id))}
+                        promptSettings={promptSettings}
+                        generationQueue={generationQueue}
+                        queueProgress={queueProgress}
+                        referenceLibrary={referenceLibrary}
+                        albumOptions={albumOptions}
+                        exportOptions={exportOptions}
+                        onExit={() => setAppState('idle')}
+                    >
+                        <EraPicker
+                            eras={eraCatalog}
+                            selectedIds={selectedEraIds}
+                            onToggle={handleToggleEra}
+                            onAddEra={handleAddEra}
+                            onRemoveEra={handleRemoveEra}
+                        />
+                        <PromptSettingsPanel
+                            settings={promptSettings}
+                            onChange={handlePromptSettingsChange}
+                            previewPrompt={previewEra && buildEraPrompts(previewEra, promptSettings).prompt}
+                        />
+                        <ReferenceLibraryPanel
+                           eras={eraCatalog}
+                           library={referenceLibrary}
+                           onAdd={handleAddReferences}
+                           onToggle={handleToggleReference}
+                           onRemove={handleRemoveReference}
+                        />
+                    </BatchMode>
+                )}
+
                 {appState === 'camera-active' && (
                     <motion.div 
                         className="fixed inset-0 bg-black/90 backdrop-blur-sm z-30 flex flex-col items-center justify-center p-4"
@@ -343,41 +1126,139 @@ function App() {
                         exit={{ opacity: 0 }}
                     >
                         <div className="relative w-full max-w-2xl aspect-[4/3] md:aspect-video bg-neutral-800 rounded-lg overflow-hidden shadow-2xl">
+                            {/* The video stays mounted under a captured photo so Retake can reuse the stream */}
+                            <video ref={videoRef} autoPlay playsInline onLoadedData={() => setIsCameraReady(true)} className={`w-full h-full object-cover ${cameraSettings.mirror ? 'transform -scale-x-100' : ''}`}></video>
                             {uploadedImage ? (
-                                <img src={uploadedImage} alt="Your selfie" className="w-full h-full object-cover transform -scale-x-100" />
+                                <img src={uploadedImage} alt="Your selfie" className="absolute inset-0 w-full h-full object-cover" />
                             ) : (
-                                <video ref={videoRef} autoPlay playsInline className="w-full h-full object-cover transform -scale-x-100"></video>
+                                <LiveFilterPreview
+                                    videoRef={videoRef}
+                                    filterId={liveFilterId}
+                                    onFilterChange={setLiveFilterId}
+                                    mirror={cameraSettings.mirror}
+                                />
+                            )}
+                            {!uploadedImage && !isKioskMode && (isMobile || videoDevices.length > 1) && (
+                                <button
+                                    onClick={() => handleCameraSettingsChange(switchFacingMode(cameraSettings))}
+                                    className="absolute top-3 right-3 w-10 h-10 flex items-center justify-center rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors"
+                                    aria-label={cameraSettings.facingMode === 'user' ? 'Switch to the back camera' : 'Switch to the front camera'}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                                    </svg>
+                                </button>
                             )}
                             {cameraError && <div className="absolute inset-0 flex items-center justify-center bg-black/70"><p className="text-red-400 text-center p-4">{cameraError}</p></div>}
-                        </div>
-                        <div className="flex items-center gap-4 mt-6">
-                            {!uploadedImage ? (
-                                <>
-                                    <button onClick={() => setAppState('idle')} className={secondaryButtonClasses}>Cancel</button>
-                                    <button onClick={handleSnapPhoto} className={primaryButtonClasses} disabled={!!cameraError}>Snap Photo</button>
-                                </>
-                            ) : (
-                                <>
-                                    <button onClick={() => setUploadedImage(null)} className={secondaryButtonClasses}>Retake</button>
-                                    <button onClick={() => setAppState('image-uploaded')} className={primaryButtonClasses}>Use Photo</button>
-                                </>
+                            {countdown !== null && (
+                                <motion.div
+                                    key={countdown}
+                                    className="absolute inset-0 flex items-center justify-center pointer-events-none"
+                                    initial={{ scale: 1.6, opacity: 0 }}
+                                    animate={{ scale: 1, opacity: 1 }}
+                                    transition={{ duration: 0.3 }}
+                                >
+                                    <span className="font-permanent-marker text-[10rem] leading-none text-yellow-400 drop-shadow-[0_4px_12px_rgba(0,0,0,0.8)]">{countdown}</span>
+                                </motion.div>
                             )}
                         </div>
+                        {burstShots.length > 0 && (
+                            <div className="flex flex-col items-center gap-3 mt-6">
+                                <p className="font-permanent-marker text-xl text-neutral-200">Pick your favorite</p>
+                                <div className="flex flex-wrap justify-center gap-3">
+                                    {burstShots.map((shot, index) => (
+                                        <button
+                                            key={index}
+                                            onClick={() => handleUseShot(shot)}
+                                            className="w-32 md:w-40 rounded-sm overflow-hidden border-4 border-white/80 hover:border-yellow-400 transition-colors"
+                                            aria-label={`Use shot ${index + 1}`}
+                                        >
+                                            <img src={shot} alt={`Shot ${index + 1}`} className="w-full aspect-[4/3] object-cover" />
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {!isKioskMode && (
+                            <div className="flex items-center gap-4 mt-6">
+                                {!uploadedImage ? (
+                                    <>
+                                        <button onClick={() => { cancelCapture(); setAppState('idle'); }} className={secondaryButtonClasses}>Cancel</button>
+                                        <button onClick={handleSnapPhoto} className={primaryButtonClasses} disabled={!!cameraError || countdown !== null}>Snap Photo</button>
+                                    </>
+                                ) : (
+                                    <>
+                                        <button onClick={() => setSourcePhoto(null)} className={secondaryButtonClasses}>Retake</button>
+                                        <button onClick={() => setAppState('image-uploaded')} className={primaryButtonClasses}>Use Photo</button>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                        {!isKioskMode && !uploadedImage && (
+                            <div className="mt-4 w-full flex justify-center">
+                                <CameraSettingsPanel
+                                    settings={cameraSettings}
+                                    onChange={handleCameraSettingsChange}
+                                    devices={videoDevices}
+                                />
+                            </div>
+                        )}
+                        {isFlashing && <div className="fixed inset-0 bg-white z-50 pointer-events-none" />}
                     </motion.div>
                 )}
 
-                {appState === 'image-uploaded' && uploadedImage && (
+                {appState === 'image-uploaded' && isCropping && originalUpload && (
+                    <PhotoCropper
+                        imageUrl={originalUpload}
+                        initialCrop={cropState}
+                        onApply={handleApplyCrop}
+                        onCancel={() => setIsCropping(false)}
+                    />
+                )}
+
+                {appState === 'image-uploaded' && !isCropping && uploadedImage && (
                     <div className="flex flex-col items-center gap-6">
                          <PolaroidCard 
                             imageUrl={uploadedImage} 
                             caption="Your Photo" 
                             status="done"
                          />
+                         <SubjectPanel
+                            settings={subjectSettings}
+                            onChange={setSubjectSettings}
+                            sourceImage={uploadedImage}
+                         />
+                         <EraPicker
+                            eras={eraCatalog}
+                            selectedIds={selectedEraIds}
+                            onToggle={handleToggleEra}
+                            onAddEra={handleAddEra}
+                            onRemoveEra={handleRemoveEra}
+                         />
+                         <PromptSettingsPanel
+                            settings={promptSettings}
+                            onChange={handlePromptSettingsChange}
+                            previewPrompt={previewEra && buildEraPrompts(previewEra, promptSettings, subjectSettings).prompt}
+                         />
+                         <ReferenceLibraryPanel
+                            eras={eraCatalog}
+                            library={referenceLibrary}
+                            onAdd={handleAddReferences}
+                            onToggle={handleToggleReference}
+                            onRemove={handleRemoveReference}
+                         />
                          <div className="flex items-center gap-4 mt-4">
                             <button onClick={handleOpenCamera} className={secondaryButtonClasses}>
                                 Retake Photo
                             </button>
-                            <button onClick={handleGenerateClick} className={primaryButtonClasses}>
+                            <button onClick={() => setIsCropping(true)} className={secondaryButtonClasses}>
+                                Adjust
+                            </button>
+                            <button
+                                onClick={handleGenerateClick}
+                                className={primaryButtonClasses}
+                                disabled={selectedEraIds.length === 0 || (subjectSettings.mode === 'side-by-side' && !subjectSettings.companionImage)}
+                            >
                                 Generate
                             </button>
                          </div>
@@ -388,47 +1269,35 @@ function App() {
                      <>
                         {isMobile ? (
                             <div className="w-full max-w-sm flex-1 overflow-y-auto mt-4 space-y-8 p-4">
-                                {DECADES.map((decade) => (
-                                    <div key={decade} className="flex justify-center">
-                                         <PolaroidCard
-                                            caption={decade}
-                                            status={generatedImages[decade]?.status || 'pending'}
-                                            imageUrl={generatedImages[decade]?.url}
-                                            error={generatedImages[decade]?.error}
-                                            onShake={handleRegenerateDecade}
-                                            onDownload={handleDownloadIndividualImage}
-                                            isMobile={isMobile}
-                                        />
+                                {activeEras.map((era) => (
+                                    <div key={era.id} className="flex justify-center">
+                                         <PolaroidCard {...getEraCardProps(era)} />
                                     </div>
                                 ))}
                             </div>
                         ) : (
                             <div ref={dragAreaRef} className="relative w-full max-w-5xl h-[600px] mt-4">
-                                {DECADES.map((decade, index) => {
-                                    const { top, left, rotate } = POSITIONS[index];
+                                {activeEras.map((era, index) => {
+                                    const placement = getMountPlacement(era, index);
                                     return (
                                         <motion.div
-                                            key={decade}
+                                            key={era.id}
                                             className="absolute cursor-grab active:cursor-grabbing"
-                                            style={{ top, left }}
+                                            style={{ ...getPlacementStyle(placement), zIndex: cardArrangement[era.id]?.zIndex ?? placement.zIndex }}
                                             initial={{ opacity: 0, scale: 0.5, y: 100, rotate: 0 }}
                                             animate={{ 
                                                 opacity: 1, 
                                                 scale: 1, 
                                                 y: 0,
-                                                rotate: `${rotate}deg`,
+                                                rotate: `${placement.rotation}deg`,
                                             }}
                                             transition={{ type: 'spring', stiffness: 100, damping: 20, delay: index * 0.15 }}
                                         >
                                             <PolaroidCard 
                                                 dragConstraintsRef={dragAreaRef}
-                                                caption={decade}
-                                                status={generatedImages[decade]?.status || 'pending'}
-                                                imageUrl={generatedImages[decade]?.url}
-                                                error={generatedImages[decade]?.error}
-                                                onShake={handleRegenerateDecade}
-                                                onDownload={handleDownloadIndividualImage}
-                                                isMobile={isMobile}
+                                                onDragStart={handleCardDragStart}
+                                                onDragSettled={handleCardDragSettled}
+                                                {...getEraCardProps(era)}
                                             />
                                         </motion.div>
                                     );
@@ -436,7 +1305,25 @@ function App() {
                             </div>
                         )}
                          <div className="h-20 mt-4 flex items-center justify-center">
-                            {appState === 'results-shown' && (
+                            {appState === 'generating' && !isKioskMode && (
+                                <div className="flex flex-col sm:flex-row items-center gap-4">
+                                    <p className="font-permanent-marker text-lg text-neutral-300" aria-live="polite">
+                                        {queueProgress.paused ? 'Paused' : 'Developing'} {queueProgress.completed + queueProgress.failed + queueProgress.cancelled}/{queueProgress.total}
+                                    </p>
+                                    <button onClick={handlePauseGeneration} className={secondaryButtonClasses}>
+                                        {queueProgress.paused ? 'Resume' : 'Pause'}
+                                    </button>
+                                    <button onClick={handleCancelGeneration} className={secondaryButtonClasses}>
+                                        Cancel
+                                    </button>
+                                </div>
+                            )}
+                            {appState === 'results-shown' && isKioskMode && (
+                                <button onClick={handleKioskReset} className={primaryButtonClasses}>
+                                    Done
+                                </button>
+                            )}
+                            {appState === 'results-shown' && !isKioskMode && (
                                 <div className="flex flex-col sm:flex-row items-center gap-4">
                                     <button 
                                         onClick={handleDownloadAlbum} 
@@ -445,15 +1332,91 @@ function App() {
                                     >
                                         {isDownloading ? 'Creating Album...' : 'Download Album'}
                                     </button>
+                                    <button
+                                        onClick={() => handleDownloadAnimation('gif')}
+                                        disabled={animationExport !== null}
+                                        className={secondaryButtonClasses}
+                                    >
+                                        {animationExport === 'gif' ? 'Creating GIF...' : 'GIF'}
+                                    </button>
+                                    {videoFormats.length > 0 && (
+                                        <button
+                                            onClick={() => handleDownloadAnimation('video')}
+                                            disabled={animationExport !== null}
+                                            className={secondaryButtonClasses}
+                                        >
+                                            {animationExport === 'video' ? 'Recording...' : 'Video'}
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={handleDownloadGallery}
+                                        disabled={isExportingGallery}
+                                        className={secondaryButtonClasses}
+                                    >
+                                        {isExportingGallery ? 'Building...' : 'Web Gallery'}
+                                    </button>
+                                    <button
+                                        onClick={handleDownloadAll}
+                                        disabled={isArchiving}
+                                        className={secondaryButtonClasses}
+                                    >
+                                        {isArchiving ? 'Zipping...' : 'Download All'}
+                                    </button>
                                     <button onClick={handleReset} className={secondaryButtonClasses}>
                                         Start Over
                                     </button>
                                 </div>
                             )}
                         </div>
+                        {appState === 'results-shown' && !isKioskMode && (
+                            <AlbumSettingsPanel
+                                options={albumOptions}
+                                onChange={handleAlbumOptionsChange}
+                                exportOptions={exportOptions}
+                                onExportChange={handleExportOptionsChange}
+                                videoFormats={videoFormats}
+                                onShuffle={handleShuffleLayout}
+                                captionStyle={captionStyle}
+                                onCaptionStyleChange={handleCaptionStyleChange}
+                            />
+                        )}
                     </>
                 )}
             </div>
+
+            {isKioskMode && !isPinPadOpen && (
+                <button
+                    onClick={() => setIsPinPadOpen(true)}
+                    className="fixed top-3 right-3 z-30 w-10 h-10 flex items-center justify-center rounded-full text-neutral-500 opacity-30 hover:opacity-100 transition-opacity"
+                    aria-label="Leave kiosk mode"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
+                    </svg>
+                </button>
+            )}
+            {lightboxEra && lightboxImageUrl && (
+                <Lightbox
+                    imageUrl={lightboxImageUrl}
+                    caption={getCaptionText(lightboxEra, cardCaptions[lightboxEra.id])}
+                    originalUrl={uploadedImage ?? undefined}
+                    onClose={() => setLightboxEraId(null)}
+                />
+            )}
+            {isKioskSetupOpen && (
+                <KioskSetup
+                    initialSettings={kioskSettings}
+                    onStart={handleStartKiosk}
+                    onCancel={() => setIsKioskSetupOpen(false)}
+                />
+            )}
+            {isPinPadOpen && (
+                <KioskPinPad
+                    pinHash={kioskSettings.pinHash}
+                    onUnlock={handleUnlockKiosk}
+                    onCancel={() => setIsPinPadOpen(false)}
+                />
+            )}
         </main>
     );
 }
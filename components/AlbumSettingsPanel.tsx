@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { cn } from '../lib/utils';
+import { ALBUM_LAYOUTS, ALBUM_THEMES } from '../lib/albumLayouts';
+import type { AlbumOptions } from '../lib/albumLayouts';
+import { DPI_OPTIONS, EXPORT_FORMATS, PRINT_PRESETS, getPrintPreset } from '../lib/albumExport';
+import type { AlbumExportOptions } from '../lib/albumExport';
+import { ANIMATION_TRANSITIONS } from '../lib/animationExport';
+import type { VideoFormat } from '../lib/animationExport';
+import { HANDWRITING_FONTS } from '../lib/captions';
+import type { CaptionStyle } from '../lib/captions';
+
+interface AlbumSettingsPanelProps {
+    options: AlbumOptions;
+    onChange: (options: AlbumOptions) => void;
+    exportOptions: AlbumExportOptions;
+    onExportChange: (options: AlbumExportOptions) => void;
+    /** Video containers the browser can record; the picker is hidden when there is no choice. */
+    videoFormats: VideoFormat[];
+    /** Picks a new layout seed, re-rolling rotations, offsets and shadows. */
+    onShuffle: () => void;
+    captionStyle: CaptionStyle;
+    onCaptionStyleChange: (style: CaptionStyle) => void;
+}
+
+const inputClasses = "bg-black/40 border border-white/20 rounded-sm px-3 py-2 text-sm text-neutral-100 placeholder:text-neutral-500 focus:outline-none focus:border-yellow-400";
+
+const chipClasses = (isActive: boolean) => cn(
+    "text-xs py-1 px-3 rounded-full border transition-colors duration-200",
+    isActive
+        ? "bg-yellow-400 border-yellow-400 text-black"
+        : "border-white/30 text-neutral-300 hover:border-white",
+);
+
+const AlbumSettingsPanel: React.FC<AlbumSettingsPanelProps> = ({ options, onChange, exportOptions, onExportChange, videoFormats, onShuffle, captionStyle, onCaptionStyleChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    // DPI only matters for presets with a physical size
+    const usesDpi = exportOptions.format === 'pdf' || getPrintPreset(exportOptions.presetId).unit === 'in';
+
+    return (
+        <div className="w-full max-w-xl flex flex-col items-center gap-3">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                aria-expanded={isOpen}
+                className="text-sm text-neutral-400 hover:text-white underline underline-offset-4"
+            >
+                {isOpen ? 'Hide album options' : 'Album layout & export'}
+            </button>
+            {isOpen && (
+                <div className="w-full flex flex-col gap-3 bg-white/5 border border-white/10 rounded-md p-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        <label className="flex flex-col gap-1 text-xs text-neutral-400">
+                            Title
+                            <input
+                                value={options.title}
+                                onChange={(e) => onChange({ ...options, title: e.target.value })}
+                                placeholder="Leave empty for no title"
+                                className={inputClasses}
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1 text-xs text-neutral-400">
+                            Subtitle
+                            <input
+                                value={options.subtitle}
+                                onChange={(e) => onChange({ ...options, subtitle: e.target.value })}
+                                placeholder="Leave empty for no subtitle"
+                                className={inputClasses}
+                            />
+                        </label>
+                    </div>
+                    <div className="flex flex-col gap-1 text-xs text-neutral-400">
+                        Layout
+                        <div className="flex flex-wrap gap-2">
+                            {ALBUM_LAYOUTS.map(layout => (
+                                <button
+                                    key={layout.id}
+                                    onClick={() => onChange({ ...options, layoutId: layout.id })}
+                                    aria-pressed={options.layoutId === layout.id}
+                                    className={chipClasses(options.layoutId === layout.id)}
+                                >
+                                    {layout.label}
+                                </button>
+                            ))}
+                            <button
+                                onClick={onShuffle}
+                                className="text-xs py-1 px-3 text-neutral-400 hover:text-white underline underline-offset-4"
+                            >
+                                Shuffle
+                            </button>
+                        </div>
+                    </div>
+                    <div className="flex flex-col gap-1 text-xs text-neutral-400">
+                        Background
+                        <div className="flex flex-wrap gap-2">
+                            {ALBUM_THEMES.map(theme => (
+                                <button
+                                    key={theme.id}
+                                    onClick={() => onChange({ ...options, themeId: theme.id })}
+                                    aria-pressed={options.themeId === theme.id}
+                                    className={cn(chipClasses(options.themeId === theme.id), "flex items-center gap-2")}
+                                >
+                                    <span className="w-3 h-3 rounded-full border border-black/20" style={{ backgroundColor: theme.background }} />
+                                    {theme.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex flex-col gap-1 text-xs text-neutral-400">
+                        Captions
+                        <div className="flex flex-wrap items-center gap-2">
+                            {HANDWRITING_FONTS.map(font => (
+                                <button
+                                    key={font.id}
+                                    onClick={() => onCaptionStyleChange({ ...captionStyle, fontId: font.id })}
+                                    aria-pressed={captionStyle.fontId === font.id}
+                                    className={chipClasses(captionStyle.fontId === font.id)}
+                                    style={{ fontFamily: font.family }}
+                                >
+                                    {font.label}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => onCaptionStyleChange({ ...captionStyle, showDateStamp: !captionStyle.showDateStamp })}
+                                aria-pressed={captionStyle.showDateStamp}
+                                className={chipClasses(captionStyle.showDateStamp)}
+                            >
+                                Date stamps
+                            </button>
+                        </div>
+                    </div>
+                    <div className="flex flex-col gap-1 text-xs text-neutral-400">
+                        Format
+                        <div className="flex flex-wrap gap-2">
+                            {EXPORT_FORMATS.map(format => (
+                                <button
+                                    key={format.id}
+                                    onClick={() => onExportChange({ ...exportOptions, format: format.id })}
+                                    aria-pressed={exportOptions.format === format.id}
+                                    className={chipClasses(exportOptions.format === format.id)}
+                                >
+                                    {format.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex flex-col gap-1 text-xs text-neutral-400">
+                        Size
+                        <div className="flex flex-wrap items-center gap-2">
+                            {PRINT_PRESETS.map(preset => (
+                                <button
+                                    key={preset.id}
+                                    onClick={() => onExportChange({ ...exportOptions, presetId: preset.id })}
+                                    aria-pressed={exportOptions.presetId === preset.id}
+                                    className={chipClasses(exportOptions.presetId === preset.id)}
+                                >
+                                    {preset.label}
+                                </button>
+                            ))}
+                            <select
+                                value={exportOptions.dpi}
+                                onChange={(e) => onExportChange({ ...exportOptions, dpi: Number(e.target.value) })}
+                                disabled={!usesDpi}
+                                aria-label="Resolution"
+                                className={cn(inputClasses, "py-1 disabled:opacity-40")}
+                            >
+                                {DPI_OPTIONS.map(dpi => (
+                                    <option key={dpi} value={dpi}>{dpi} DPI</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    <div className="flex flex-col gap-1 text-xs text-neutral-400">
+                        GIF &amp; video
+                        <div className="flex flex-wrap gap-2">
+                            {ANIMATION_TRANSITIONS.map(transition => (
+                                <button
+                                    key={transition.id}
+                                    onClick={() => onExportChange({ ...exportOptions, transition: transition.id })}
+                                    aria-pressed={exportOptions.transition === transition.id}
+                                    className={chipClasses(exportOptions.transition === transition.id)}
+                                >
+                                    {transition.label}
+                                </button>
+                            ))}
+                            {videoFormats.length > 1 && videoFormats.map(format => (
+                                <button
+                                    key={format}
+                                    onClick={() => onExportChange({ ...exportOptions, videoFormat: format })}
+                                    aria-pressed={exportOptions.videoFormat === format}
+                                    className={chipClasses(exportOptions.videoFormat === format)}
+                                >
+                                    {format.toUpperCase()}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AlbumSettingsPanel;
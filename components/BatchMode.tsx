@@ -0,0 +1,339 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+import PolaroidCard from './PolaroidCard';
+import { generateDecadeImage } from '../services/geminiService';
+import { getErrorCode } from '../services/generationErrors';
+import { primaryButtonClasses, secondaryButtonClasses } from '../lib/buttonStyles';
+import { ACCEPTED_IMAGE_TYPES, preprocessImageFile } from '../lib/imagePreprocessing';
+import { collectDroppedImages, groupPhotosByPerson, guessPersonName, sortImageFiles } from '../lib/batch';
+import type { BatchPhoto } from '../lib/batch';
+import { JOB_PRIORITY } from '../lib/generationQueue';
+import type { GenerationQueue, QueueProgress } from '../lib/generationQueue';
+import { getFavoriteVariant, toImageVariant, withGenerationError, withVariant } from '../lib/variants';
+import { exportAlbum } from '../lib/albumExport';
+import type { AlbumExportOptions } from '../lib/albumExport';
+import type { AlbumOptions } from '../lib/albumLayouts';
+import { DEFAULT_CAPTION_STYLE, buildCaptionedPhotos } from '../lib/captions';
+import { downloadBlob, downloadUrl } from '../lib/download';
+import { hashString } from '../lib/random';
+import { resolveReferenceImages } from '../lib/referenceLibrary';
+import type { ReferenceLibrary } from '../lib/referenceLibrary';
+import type { Era } from '../lib/eraCatalog';
+import type { PromptSettings } from '../lib/promptTemplate';
+import type { GeneratedImage } from '../types';
+
+interface BatchModeProps {
+    /** The eras to generate for every photo, in display order. */
+    eras: Era[];
+    promptSettings: PromptSettings;
+    generationQueue: GenerationQueue;
+    queueProgress: QueueProgress;
+    referenceLibrary: ReferenceLibrary;
+    albumOptions: AlbumOptions;
+    exportOptions: AlbumExportOptions;
+    onExit: () => void;
+    /** Era and prompt controls, shown while photos are being collected. */
+    children?: React.ReactNode;
+}
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'photo';
+
+const BatchMode: React.FC<BatchModeProps> = ({ eras, promptSettings, generationQueue, queueProgress, referenceLibrary, albumOptions, exportOptions, onExit, children }) => {
+    const [photos, setPhotos] = useState<BatchPhoto[]>([]);
+    // The eras are fixed once the batch starts, so later picker changes don't affect it
+    const [batchEras, setBatchEras] = useState<Era[] | null>(null);
+    const [isReading, setIsReading] = useState(false);
+    const [isDragOver, setIsDragOver] = useState(false);
+    const [downloadingId, setDownloadingId] = useState<string | null>(null);
+    const filesInputRef = useRef<HTMLInputElement | null>(null);
+    const folderInputRef = useRef<HTMLInputElement | null>(null);
+    const jobIds = useRef(new Set<string>());
+    const isMounted = useRef(true);
+
+    // Leaving batch mode cancels whatever is still queued
+    useEffect(() => {
+        isMounted.current = true;
+        const ids = jobIds.current;
+        return () => {
+            isMounted.current = false;
+            ids.forEach(id => generationQueue.cancel(id));
+            ids.clear();
+        };
+    }, [generationQueue]);
+
+    const addFiles = async (files: File[]) => {
+        if (files.length === 0) return;
+        setIsReading(true);
+        let failed = 0;
+        // One at a time: decoding a folder of full-size photos at once can exhaust memory
+        for (const file of files) {
+            try {
+                const sourceImage = await preprocessImageFile(file);
+                if (!isMounted.current) return;
+                const photo: BatchPhoto = {
+                    id: `${Date.now().toString(36)}-${hashString(file.name + file.size + file.lastModified).toString(36)}`,
+                    fileName: file.name,
+                    person: guessPersonName(file.name),
+                    sourceImage,
+                    results: {},
+                };
+                setPhotos(prev => prev.some(p => p.id === photo.id) ? prev : [...prev, photo]);
+            } catch (err) {
+                console.error(`Failed to read ${file.name}:`, err);
+                failed++;
+            }
+        }
+        setIsReading(false);
+        if (failed > 0) {
+            alert(`${failed} of ${files.length} photos could not be read and were skipped.`);
+        }
+    };
+
+    const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = sortImageFiles(Array.from(event.target.files ?? []));
+        // Allow picking the same files again
+        event.target.value = '';
+        addFiles(files);
+    };
+
+    const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setIsDragOver(false);
+        addFiles(await collectDroppedImages(event.dataTransfer));
+    };
+
+    const updateResult = (photoId: string, eraId: string, update: (image: GeneratedImage | undefined) => GeneratedImage) => {
+        setPhotos(prev => prev.map(photo => photo.id === photoId
+            ? { ...photo, results: { ...photo.results, [eraId]: update(photo.results[eraId]) } }
+            : photo));
+    };
+
+    const runJob = async (photo: BatchPhoto, era: Era, priority: number) => {
+        const id = `batch:${photo.id}:${era.id}`;
+        jobIds.current.add(id);
+        try {
+            const result = await generationQueue.enqueue(
+                async signal => generateDecadeImage(photo.sourceImage, era, promptSettings, {
+                    signal,
+                    referenceImages: await resolveReferenceImages(era, referenceLibrary),
+                }),
+                { id, priority },
+            );
+            if (!isMounted.current) return;
+            const variant = toImageVariant(result);
+            updateResult(photo.id, era.id, image => withVariant(image, variant));
+        } catch (err) {
+            if (!isMounted.current) return;
+            updateResult(photo.id, era.id, image => withGenerationError(image, err));
+            if (getErrorCode(err) !== 'CANCELLED') {
+                console.error(`Failed to generate ${era.id} for ${photo.fileName}:`, err);
+            }
+        } finally {
+            jobIds.current.delete(id);
+        }
+    };
+
+    const handleStart = () => {
+        if (photos.length === 0 || eras.length === 0) return;
+        setBatchEras(eras);
+        setPhotos(prev => prev.map(photo => ({
+            ...photo,
+            results: Object.fromEntries(eras.map(era => [era.id, { status: 'pending', variants: [] } as GeneratedImage])),
+        })));
+        generationQueue.clearHistory();
+        generationQueue.resume();
+        // Photo by photo, so each person's set finishes before the next one starts
+        photos.forEach(photo => eras.forEach(era => runJob(photo, era, JOB_PRIORITY.batch)));
+    };
+
+    const handleRetry = (photo: BatchPhoto, era: Era) => {
+        if (photo.results[era.id]?.status === 'pending') return;
+        updateResult(photo.id, era.id, image => ({ ...image, status: 'pending', error: undefined, errorCode: undefined, variants: image?.variants ?? [] }));
+        // Retries jump ahead of the rest of the batch
+        runJob(photo, era, JOB_PRIORITY.user);
+    };
+
+    const handleCancel = () => {
+        jobIds.current.forEach(id => generationQueue.cancel(id));
+    };
+
+    const handleNewBatch = () => {
+        handleCancel();
+        setPhotos([]);
+        setBatchEras(null);
+    };
+
+    const handleDownloadAlbum = async (photo: BatchPhoto) => {
+        if (!batchEras) return;
+        const albumPhotos = buildCaptionedPhotos(
+            batchEras.flatMap(era => {
+                const favorite = getFavoriteVariant(photo.results[era.id]);
+                return favorite ? [{ era, url: favorite.url }] : [];
+            }),
+            {},
+            DEFAULT_CAPTION_STYLE,
+        );
+        if (albumPhotos.length === 0) {
+            alert("None of this photo's eras have finished yet.");
+            return;
+        }
+
+        setDownloadingId(photo.id);
+        try {
+            const { blob, filename } = await exportAlbum(albumPhotos, { ...albumOptions, seed: hashString(photo.id) }, exportOptions);
+            downloadBlob(blob, `${slugify(photo.person)}-${slugify(photo.fileName.replace(/\.[^.]+$/, ''))}-${filename}`);
+        } catch (error) {
+            console.error("Failed to create album:", error);
+            alert("Sorry, there was an error creating this album. Please try again.");
+        } finally {
+            setDownloadingId(null);
+        }
+    };
+
+    const handleRename = (photoId: string, person: string) => {
+        setPhotos(prev => prev.map(photo => photo.id === photoId ? { ...photo, person } : photo));
+    };
+
+    const personInput = (photo: BatchPhoto) => (
+        <input
+            value={photo.person}
+            onChange={(e) => handleRename(photo.id, e.target.value)}
+            aria-label={`Person in ${photo.fileName}`}
+            className="w-full bg-black/40 border border-white/20 rounded-sm px-2 py-1 text-sm text-neutral-100 focus:outline-none focus:border-yellow-400"
+        />
+    );
+
+    if (!batchEras) {
+        return (
+            <div className="w-full max-w-4xl flex flex-col items-center gap-6">
+                <div
+                    onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+                    onDragLeave={() => setIsDragOver(false)}
+                    onDrop={handleDrop}
+                    className={cn(
+                        "w-full flex flex-col items-center gap-4 border-2 border-dashed rounded-md p-8 text-center transition-colors duration-200",
+                        isDragOver ? "border-yellow-400 bg-yellow-400/10" : "border-white/20",
+                    )}
+                >
+                    <p className="font-permanent-marker text-xl text-neutral-300">
+                        {isReading ? 'Reading photos...' : 'Drop photos or a folder here'}
+                    </p>
+                    <div className="flex flex-wrap justify-center gap-4">
+                        <input type="file" ref={filesInputRef} onChange={handleInputChange} accept={ACCEPTED_IMAGE_TYPES} multiple className="hidden" aria-hidden="true" />
+                        <input
+                            type="file"
+                            ref={(input) => {
+                                folderInputRef.current = input;
+                                // Not in React's typings, so set it on the element directly
+                                input?.setAttribute('webkitdirectory', '');
+                            }}
+                            onChange={handleInputChange}
+                            className="hidden"
+                            aria-hidden="true"
+                        />
+                        <button onClick={() => filesInputRef.current?.click()} className={secondaryButtonClasses} disabled={isReading}>
+                            Choose Photos
+                        </button>
+                        <button onClick={() => folderInputRef.current?.click()} className={secondaryButtonClasses} disabled={isReading}>
+                            Choose Folder
+                        </button>
+                    </div>
+                </div>
+
+                {photos.length > 0 && (
+                    <ul className="w-full grid grid-cols-2 sm:grid-cols-4 md:grid-cols-6 gap-3">
+                        {photos.map(photo => (
+                            <li key={photo.id} className="relative flex flex-col gap-1 bg-white/5 border border-white/10 rounded-md p-2">
+                                <img src={photo.sourceImage} alt={photo.fileName} className="w-full aspect-square object-cover rounded-sm bg-neutral-800" />
+                                {personInput(photo)}
+                                <button
+                                    onClick={() => setPhotos(prev => prev.filter(p => p.id !== photo.id))}
+                                    className="absolute top-3 right-3 w-6 h-6 rounded-full bg-black/60 text-white text-sm leading-none hover:bg-black"
+                                    aria-label={`Remove ${photo.fileName}`}
+                                >
+                                    &times;
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {children}
+
+                <div className="flex items-center gap-4">
+                    <button onClick={onExit} className={secondaryButtonClasses}>Back</button>
+                    <button onClick={handleStart} className={primaryButtonClasses} disabled={isReading || photos.length === 0 || eras.length === 0}>
+                        Generate {photos.length} &times; {eras.length}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    const isRunning = queueProgress.running + queueProgress.queued > 0;
+
+    return (
+        <div className="w-full max-w-6xl flex flex-col gap-8 pb-8">
+            <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+                <p className="font-permanent-marker text-lg text-neutral-300" aria-live="polite">
+                    {isRunning ? 'Developing' : 'Developed'} {queueProgress.completed + queueProgress.failed + queueProgress.cancelled}/{queueProgress.total}
+                </p>
+                {isRunning && (
+                    <button onClick={handleCancel} className={secondaryButtonClasses}>Cancel</button>
+                )}
+                <button onClick={handleNewBatch} className={secondaryButtonClasses}>New Batch</button>
+                <button onClick={onExit} className={secondaryButtonClasses}>Exit</button>
+            </div>
+
+            {groupPhotosByPerson(photos).map(group => (
+                <section key={group.person} className="flex flex-col gap-4">
+                    <h2 className="font-caveat text-4xl font-bold text-neutral-100 border-b border-white/10 pb-1">{group.person}</h2>
+                    {group.photos.map(photo => (
+                        <div key={photo.id} className="flex flex-col md:flex-row gap-4">
+                            <div className="w-40 flex-shrink-0 flex flex-col gap-2">
+                                <img src={photo.sourceImage} alt={photo.fileName} className="w-full aspect-square object-cover rounded-sm bg-neutral-800" />
+                                {personInput(photo)}
+                                <p className="text-xs text-neutral-500 truncate" title={photo.fileName}>{photo.fileName}</p>
+                                <button
+                                    onClick={() => handleDownloadAlbum(photo)}
+                                    disabled={downloadingId === photo.id}
+                                    className="text-sm text-neutral-300 hover:text-white underline underline-offset-4 text-left disabled:opacity-50"
+                                >
+                                    {downloadingId === photo.id ? 'Creating album...' : 'Download album'}
+                                </button>
+                            </div>
+                            <div className="flex flex-wrap gap-4">
+                                {batchEras.map(era => {
+                                    const image = photo.results[era.id];
+                                    const favorite = getFavoriteVariant(image);
+                                    return (
+                                        <div key={era.id} className="w-48">
+                                            <PolaroidCard
+                                                id={era.id}
+                                                caption={era.caption}
+                                                status={image?.status ?? 'pending'}
+                                                imageUrl={favorite?.url}
+                                                error={image?.error}
+                                                errorCode={image?.errorCode}
+                                                onShake={() => handleRetry(photo, era)}
+                                                onDownload={favorite ? () => downloadUrl(favorite.url, `past-forward-${slugify(photo.person)}-${era.id}.jpg`) : undefined}
+                                                originalUrl={photo.sourceImage}
+                                                isMobile
+                                            />
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </section>
+            ))}
+        </div>
+    );
+};
+
+export default BatchMode;
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { cn } from '../lib/utils';
+import { CAMERA_RESOLUTIONS, CAPTURE_QUALITIES, TIMER_OPTIONS } from '../lib/camera';
+import type { CameraSettings } from '../lib/camera';
+
+interface CameraSettingsPanelProps {
+    settings: CameraSettings;
+    onChange: (settings: CameraSettings) => void;
+    /** The connected cameras; the picker is hidden when there is only one. */
+    devices: MediaDeviceInfo[];
+}
+
+const inputClasses = "bg-black/40 border border-white/20 rounded-sm px-3 py-2 text-sm text-neutral-100 placeholder:text-neutral-500 focus:outline-none focus:border-yellow-400";
+
+const chipClasses = (isActive: boolean) => cn(
+    "text-xs py-1 px-3 rounded-full border transition-colors duration-200",
+    isActive
+        ? "bg-yellow-400 border-yellow-400 text-black"
+        : "border-white/30 text-neutral-300 hover:border-white",
+);
+
+const CameraSettingsPanel: React.FC<CameraSettingsPanelProps> = ({ settings, onChange, devices }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <div className="w-full max-w-xl flex flex-col items-center gap-3">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                aria-expanded={isOpen}
+                className="text-sm text-neutral-400 hover:text-white underline underline-offset-4"
+            >
+                {isOpen ? 'Hide camera settings' : 'Camera settings'}
+            </button>
+            {isOpen && (
+                <div className="w-full flex flex-col gap-3 bg-white/5 border border-white/10 rounded-md p-3">
+                    {devices.length > 1 && (
+                        <label className="flex flex-col gap-1 text-xs text-neutral-400">
+                            Camera
+                            <select
+                                value={settings.deviceId ?? ''}
+                                onChange={(e) => onChange({ ...settings, deviceId: e.target.value || undefined })}
+                                className={inputClasses}
+                            >
+                                <option value="">{settings.facingMode === 'user' ? 'Front camera' : 'Back camera'}</option>
+                                {devices.map((device, index) => (
+                                    <option key={device.deviceId} value={device.deviceId}>
+                                        {device.label || `Camera ${index + 1}`}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+                    <div className="flex flex-col gap-1 text-xs text-neutral-400">
+                        Resolution
+                        <div className="flex flex-wrap gap-2">
+                            {CAMERA_RESOLUTIONS.map(resolution => (
+                                <button
+                                    key={resolution.id}
+                                    onClick={() => onChange({ ...settings, resolutionId: resolution.id })}
+                                    aria-pressed={settings.resolutionId === resolution.id}
+                                    className={chipClasses(settings.resolutionId === resolution.id)}
+                                >
+                                    {resolution.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex flex-col gap-1 text-xs text-neutral-400">
+                        Quality
+                        <div className="flex flex-wrap gap-2">
+                            {CAPTURE_QUALITIES.map(quality => (
+                                <button
+                                    key={quality.id}
+                                    onClick={() => onChange({ ...settings, qualityId: quality.id })}
+                                    aria-pressed={settings.qualityId === quality.id}
+                                    className={chipClasses(settings.qualityId === quality.id)}
+                                >
+                                    {quality.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex flex-col gap-1 text-xs text-neutral-400">
+                        Timer
+                        <div className="flex flex-wrap gap-2">
+                            {TIMER_OPTIONS.map(seconds => (
+                                <button
+                                    key={seconds}
+                                    onClick={() => onChange({ ...settings, timerSeconds: seconds })}
+                                    aria-pressed={settings.timerSeconds === seconds}
+                                    className={chipClasses(settings.timerSeconds === seconds)}
+                                >
+                                    {seconds === 0 ? 'Off' : `${seconds}s`}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={() => onChange({ ...settings, mirror: !settings.mirror })}
+                            aria-pressed={settings.mirror}
+                            className={chipClasses(settings.mirror)}
+                        >
+                            Mirror
+                        </button>
+                        <button
+                            onClick={() => onChange({ ...settings, flash: !settings.flash })}
+                            aria-pressed={settings.flash}
+                            className={chipClasses(settings.flash)}
+                        >
+                            Flash
+                        </button>
+                    </div>
+                    <p className="text-xs text-neutral-500">
+                        Mirrored photos are saved the way the preview shows them. The flash uses the camera's light where there is one, and lights up the screen otherwise.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CameraSettingsPanel;
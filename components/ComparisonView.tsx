@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+import type { ComparisonMode } from '../lib/comparison';
+
+interface ComparisonViewProps {
+    mode: Exclude<ComparisonMode, 'off'>;
+    /** The original photo. */
+    beforeUrl: string;
+    /** The generated result. */
+    afterUrl: string;
+    caption: string;
+}
+
+const labelClasses = "absolute z-10 text-[10px] uppercase tracking-wider text-white bg-black/50 rounded-full px-2 py-0.5 pointer-events-none";
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ mode, beforeUrl, afterUrl, caption }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    // Fraction of the width showing the original in wipe mode
+    const [position, setPosition] = useState(0.5);
+    const [isPeeking, setIsPeeking] = useState(false);
+
+    // Native listeners: the draggable card listens for pointerdown natively too, so React's
+    // stopPropagation would come too late to keep a wipe from dragging the card
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container || mode === 'side-by-side') return;
+        let pointerId: number | null = null;
+
+        const updatePosition = (e: PointerEvent) => {
+            const rect = container.getBoundingClientRect();
+            setPosition(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+        };
+        const handlePointerDown = (e: PointerEvent) => {
+            e.stopPropagation();
+            pointerId = e.pointerId;
+            container.setPointerCapture(e.pointerId);
+            if (mode === 'wipe') updatePosition(e);
+            else setIsPeeking(true);
+        };
+        const handlePointerMove = (e: PointerEvent) => {
+            if (e.pointerId !== pointerId) return;
+            if (mode === 'wipe') updatePosition(e);
+        };
+        const handlePointerUp = (e: PointerEvent) => {
+            if (e.pointerId !== pointerId) return;
+            pointerId = null;
+            setIsPeeking(false);
+        };
+
+        container.addEventListener('pointerdown', handlePointerDown);
+        container.addEventListener('pointermove', handlePointerMove);
+        container.addEventListener('pointerup', handlePointerUp);
+        container.addEventListener('pointercancel', handlePointerUp);
+        return () => {
+            container.removeEventListener('pointerdown', handlePointerDown);
+            container.removeEventListener('pointermove', handlePointerMove);
+            container.removeEventListener('pointerup', handlePointerUp);
+            container.removeEventListener('pointercancel', handlePointerUp);
+        };
+    }, [mode]);
+
+    const handleWipeKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowLeft') setPosition(p => Math.max(0, p - 0.05));
+        if (e.key === 'ArrowRight') setPosition(p => Math.min(1, p + 0.05));
+    };
+
+    if (mode === 'side-by-side') {
+        return (
+            <div ref={containerRef} className="absolute inset-0 z-[15] flex bg-neutral-900">
+                <div className="relative w-1/2 h-full border-r-2 border-neutral-100">
+                    <img src={beforeUrl} alt={`Original photo for ${caption}`} draggable={false} className="w-full h-full object-cover" />
+                    <span className={cn(labelClasses, "top-2 left-2")}>Before</span>
+                </div>
+                <div className="relative w-1/2 h-full">
+                    <img src={afterUrl} alt={caption} draggable={false} className="w-full h-full object-cover" />
+                    <span className={cn(labelClasses, "top-2 right-2")}>After</span>
+                </div>
+            </div>
+        );
+    }
+
+    if (mode === 'peek') {
+        return (
+            <div
+                ref={containerRef}
+                className="absolute inset-0 z-[15] cursor-pointer touch-none select-none"
+                aria-label={`Hold to see the original photo for ${caption}`}
+            >
+                <img
+                    src={beforeUrl}
+                    alt={`Original photo for ${caption}`}
+                    draggable={false}
+                    className={cn("w-full h-full object-cover transition-opacity duration-200", isPeeking ? "opacity-100" : "opacity-0")}
+                />
+                <span className={cn(labelClasses, "bottom-2 left-1/2 -translate-x-1/2 whitespace-nowrap")}>
+                    {isPeeking ? 'Before' : 'Hold to see before'}
+                </span>
+            </div>
+        );
+    }
+
+    return (
+        <div
+            ref={containerRef}
+            className="absolute inset-0 z-[15] cursor-ew-resize touch-none select-none focus:outline-none focus-visible:ring-2 focus-visible:ring-yellow-400"
+            role="slider"
+            tabIndex={0}
+            aria-label={`Before and after for ${caption}`}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(position * 100)}
+            onKeyDown={handleWipeKeyDown}
+        >
+            <img src={afterUrl} alt={caption} draggable={false} className="absolute inset-0 w-full h-full object-cover" />
+            <img
+                src={beforeUrl}
+                alt={`Original photo for ${caption}`}
+                draggable={false}
+                className="absolute inset-0 w-full h-full object-cover"
+                style={{ clipPath: `inset(0 ${(1 - position) * 100}% 0 0)` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow-[0_0_4px_rgba(0,0,0,0.6)] pointer-events-none" style={{ left: `${position * 100}%` }}>
+                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white text-black text-xs flex items-center justify-center shadow">
+                    ↔
+                </div>
+            </div>
+            <span className={cn(labelClasses, "top-2 left-2")}>Before</span>
+            <span className={cn(labelClasses, "top-2 right-2")}>After</span>
+        </div>
+    );
+};
+
+export default ComparisonView;
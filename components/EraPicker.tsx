@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, FormEvent } from 'react';
+import { cn } from '../lib/utils';
+import type { Era } from '../lib/eraCatalog';
+
+interface EraPickerProps {
+    eras: Era[];
+    selectedIds: string[];
+    onToggle: (id: string) => void;
+    onAddEra: (label: string, promptTemplate?: string) => void;
+    onRemoveEra: (id: string) => void;
+}
+
+const EraPicker: React.FC<EraPickerProps> = ({ eras, selectedIds, onToggle, onAddEra, onRemoveEra }) => {
+    const [isAdding, setIsAdding] = useState(false);
+    const [label, setLabel] = useState('');
+    const [promptTemplate, setPromptTemplate] = useState('');
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (!label.trim()) return;
+        onAddEra(label, promptTemplate);
+        setLabel('');
+        setPromptTemplate('');
+        setIsAdding(false);
+    };
+
+    return (
+        <div className="w-full max-w-xl flex flex-col items-center gap-3">
+            <p className="font-permanent-marker text-neutral-300 text-lg">Pick your eras</p>
+            <div className="flex flex-wrap justify-center gap-2">
+                {eras.map(era => {
+                    const isSelected = selectedIds.includes(era.id);
+                    return (
+                        <div key={era.id} className="relative">
+                            <button
+                                onClick={() => onToggle(era.id)}
+                                aria-pressed={isSelected}
+                                className={cn(
+                                    "font-permanent-marker text-base py-1 px-4 rounded-sm border-2 transition-colors duration-200",
+                                    isSelected
+                                        ? "bg-yellow-400 border-yellow-400 text-black"
+                                        : "bg-white/5 border-white/40 text-neutral-300 hover:border-white",
+                                    era.custom && "pr-7",
+                                )}
+                            >
+                                {era.label}
+                            </button>
+                            {era.custom && (
+                                <button
+                                    onClick={() => onRemoveEra(era.id)}
+                                    className="absolute right-1.5 top-1/2 -translate-y-1/2 text-neutral-500 hover:text-red-400"
+                                    aria-label={`Remove ${era.label}`}
+                                >
+                                    &times;
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+                {!isAdding && (
+                    <button
+                        onClick={() => setIsAdding(true)}
+                        className="font-permanent-marker text-base py-1 px-4 rounded-sm border-2 border-dashed border-white/40 text-neutral-400 hover:border-white hover:text-white"
+                    >
+                        + Add era
+                    </button>
+                )}
+            </div>
+            {isAdding && (
+                <form onSubmit={handleSubmit} className="w-full flex flex-col gap-2 bg-white/5 border border-white/10 rounded-md p-3">
+                    <input
+                        value={label}
+                        onChange={(e) => setLabel(e.target.value)}
+                        placeholder="Era name, e.g. 1920s or 2080s"
+                        className="bg-black/40 border border-white/20 rounded-sm px-3 py-2 text-sm text-neutral-100 placeholder:text-neutral-500 focus:outline-none focus:border-yellow-400"
+                        autoFocus
+                    />
+                    <textarea
+                        value={promptTemplate}
+                        onChange={(e) => setPromptTemplate(e.target.value)}
+                        placeholder="Optional prompt. Use {era}, {subjectType}, {region}, {mood} or {photoMedium}."
+                        rows={2}
+                        className="bg-black/40 border border-white/20 rounded-sm px-3 py-2 text-sm text-neutral-100 placeholder:text-neutral-500 focus:outline-none focus:border-yellow-400"
+                    />
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setIsAdding(false)} className="text-sm text-neutral-400 hover:text-white px-3 py-1">
+                            Cancel
+                        </button>
+                        <button type="submit" disabled={!label.trim()} className="text-sm font-bold text-black bg-yellow-400 rounded-sm px-3 py-1 disabled:opacity-50">
+                            Add
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default EraPicker;
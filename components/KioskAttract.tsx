@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import PolaroidCard from './PolaroidCard';
+
+interface KioskAttractProps {
+    /** Recent results to cycle through; empty cards are shown until there are some. */
+    images: { url: string; caption: string }[];
+    /** Captions for the empty cards. */
+    captions: string[];
+    onStart: () => void;
+}
+
+const SLIDE_MS = 3500;
+
+const KioskAttract: React.FC<KioskAttractProps> = ({ images, captions, onStart }) => {
+    const slides = images.length > 0
+        ? images.map(image => ({ key: image.url, url: image.url, caption: image.caption }))
+        : captions.map(caption => ({ key: caption, url: undefined, caption }));
+    const [index, setIndex] = useState(0);
+
+    useEffect(() => {
+        if (slides.length < 2) return;
+        const timer = setInterval(() => setIndex(i => (i + 1) % slides.length), SLIDE_MS);
+        return () => clearInterval(timer);
+    }, [slides.length]);
+
+    const slide = slides[index % Math.max(1, slides.length)];
+
+    return (
+        <button
+            onClick={onStart}
+            className="fixed inset-0 z-20 w-full h-full flex flex-col items-center justify-center gap-10 bg-black/60 cursor-pointer"
+            aria-label="Tap to start"
+        >
+            <div className="relative w-80 h-[26rem]">
+                <AnimatePresence mode="popLayout">
+                    {slide && (
+                        <motion.div
+                            key={slide.key}
+                            className="absolute inset-0 pointer-events-none"
+                            initial={{ opacity: 0, x: 120, rotate: 12 }}
+                            animate={{ opacity: 1, x: 0, rotate: index % 2 ? 3 : -3 }}
+                            exit={{ opacity: 0, x: -120, rotate: -12 }}
+                            transition={{ duration: 0.8, ease: 'easeOut' }}
+                        >
+                            <PolaroidCard caption={slide.caption} status="done" imageUrl={slide.url} isMobile />
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
+            <motion.p
+                className="font-permanent-marker text-4xl md:text-5xl text-yellow-400"
+                animate={{ scale: [1, 1.06, 1] }}
+                transition={{ duration: 1.6, repeat: Infinity, ease: 'easeInOut' }}
+            >
+                Tap to start
+            </motion.p>
+        </button>
+    );
+};
+
+export default KioskAttract;
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { MAX_PIN_LENGTH, verifyPin } from '../lib/kiosk';
+
+interface KioskPinPadProps {
+    /** The hash of the operator PIN that unlocks the kiosk. */
+    pinHash: string;
+    onUnlock: () => void;
+    onCancel: () => void;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'];
+
+const KioskPinPad: React.FC<KioskPinPadProps> = ({ pinHash, onUnlock, onCancel }) => {
+    const [entry, setEntry] = useState('');
+    const [isWrong, setIsWrong] = useState(false);
+
+    const handleKey = (key: string) => {
+        setIsWrong(false);
+        if (key === 'clear') setEntry('');
+        else if (key === 'back') setEntry(value => value.slice(0, -1));
+        else setEntry(value => (value + key).slice(0, MAX_PIN_LENGTH));
+    };
+
+    const handleSubmit = async () => {
+        if (await verifyPin(entry, pinHash)) {
+            onUnlock();
+        } else {
+            setIsWrong(true);
+            setEntry('');
+        }
+    };
+
+    // Hardware keyboards work too
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (/^\d$/.test(e.key)) handleKey(e.key);
+            else if (e.key === 'Backspace') handleKey('back');
+            else if (e.key === 'Enter') handleSubmit();
+            else if (e.key === 'Escape') onCancel();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    return (
+        <motion.div
+            className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            role="dialog"
+            aria-label="Enter the operator PIN"
+        >
+            <div className="flex flex-col items-center gap-4">
+                <p className="font-permanent-marker text-xl text-neutral-200">Operator PIN</p>
+                <motion.div
+                    className="flex gap-2 h-4"
+                    animate={isWrong ? { x: [0, -10, 10, -6, 6, 0] } : { x: 0 }}
+                    transition={{ duration: 0.4 }}
+                    aria-live="polite"
+                >
+                    {entry.split('').map((_, index) => (
+                        <span key={index} className="w-3 h-3 rounded-full bg-yellow-400" />
+                    ))}
+                    {isWrong && <span className="text-sm text-red-400">Wrong PIN</span>}
+                </motion.div>
+                <div className="grid grid-cols-3 gap-3">
+                    {KEYS.map(key => (
+                        <button
+                            key={key}
+                            onClick={() => handleKey(key)}
+                            className={cn(
+                                "w-16 h-16 rounded-full border-2 border-white/40 text-neutral-100 hover:bg-white hover:text-black transition-colors",
+                                /\d/.test(key) ? "font-permanent-marker text-2xl" : "text-xs",
+                            )}
+                            aria-label={key === 'back' ? 'Delete' : key === 'clear' ? 'Clear' : key}
+                        >
+                            {key === 'back' ? '⌫' : key === 'clear' ? 'Clear' : key}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-6 mt-2">
+                    <button onClick={onCancel} className="text-sm text-neutral-400 hover:text-white underline underline-offset-4">Cancel</button>
+                    <button onClick={handleSubmit} disabled={!entry} className="text-sm text-yellow-400 hover:text-yellow-300 underline underline-offset-4 disabled:opacity-40">Unlock</button>
+                </div>
+            </div>
+        </motion.div>
+    );
+};
+
+export default KioskPinPad;
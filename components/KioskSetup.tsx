@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { FormEvent, useState } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { primaryButtonClasses, secondaryButtonClasses } from '../lib/buttonStyles';
+import { BURST_OPTIONS, COUNTDOWN_OPTIONS, MAX_PIN_LENGTH, MIN_PIN_LENGTH, RESET_OPTIONS, hashPin, isValidPin } from '../lib/kiosk';
+import type { KioskSettings } from '../lib/kiosk';
+
+interface KioskSetupProps {
+    initialSettings: KioskSettings;
+    onStart: (settings: KioskSettings) => void;
+    onCancel: () => void;
+}
+
+const inputClasses = "bg-black/40 border border-white/20 rounded-sm px-3 py-2 text-sm text-neutral-100 placeholder:text-neutral-500 focus:outline-none focus:border-yellow-400";
+
+const chipClasses = (isActive: boolean) => cn(
+    "text-xs py-1 px-3 rounded-full border transition-colors duration-200",
+    isActive
+        ? "bg-yellow-400 border-yellow-400 text-black"
+        : "border-white/30 text-neutral-300 hover:border-white",
+);
+
+const formatSeconds = (seconds: number) => seconds < 60 ? `${seconds}s` : `${seconds / 60} min`;
+
+const KioskSetup: React.FC<KioskSetupProps> = ({ initialSettings, onStart, onCancel }) => {
+    const [settings, setSettings] = useState(initialSettings);
+    const [pin, setPin] = useState('');
+    const [confirmPin, setConfirmPin] = useState('');
+    // Only the PIN's hash is stored, so leaving both fields empty keeps the current PIN
+    const keepsCurrentPin = !!initialSettings.pinHash && !pin && !confirmPin;
+    const canStart = keepsCurrentPin || (isValidPin(pin) && pin === confirmPin);
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!canStart) return;
+        onStart(keepsCurrentPin ? settings : { ...settings, pinHash: await hashPin(pin) });
+    };
+
+    const chipRow = (label: string, options: number[], value: number, format: (option: number) => string, onSelect: (option: number) => void) => (
+        <div className="flex flex-col gap-1 text-xs text-neutral-400">
+            {label}
+            <div className="flex flex-wrap gap-2">
+                {options.map(option => (
+                    <button key={option} type="button" onClick={() => onSelect(option)} aria-pressed={value === option} className={chipClasses(value === option)}>
+                        {format(option)}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+
+    return (
+        <motion.div
+            className="fixed inset-0 bg-black/90 backdrop-blur-sm z-40 flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+        >
+            <form onSubmit={handleSubmit} className="w-full max-w-md flex flex-col gap-4 bg-white/5 border border-white/10 rounded-md p-6">
+                <h2 className="font-permanent-marker text-2xl text-neutral-100">Kiosk mode</h2>
+                <p className="text-sm text-neutral-400">
+                    Runs full screen for events: guests tap to start, a countdown takes the photo and the selected eras generate automatically. The kiosk resets itself after the results have been up for a while.
+                </p>
+                {chipRow('Countdown', COUNTDOWN_OPTIONS, settings.countdownSeconds, formatSeconds, countdownSeconds => setSettings(s => ({ ...s, countdownSeconds })))}
+                {chipRow('Burst', BURST_OPTIONS, settings.burstCount, count => count === 1 ? 'Single shot' : `${count} shots`, burstCount => setSettings(s => ({ ...s, burstCount })))}
+                {chipRow('Reset after', RESET_OPTIONS, settings.resetAfterSeconds, formatSeconds, resetAfterSeconds => setSettings(s => ({ ...s, resetAfterSeconds })))}
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="flex flex-col gap-1 text-xs text-neutral-400">
+                        Operator PIN
+                        <input
+                            type="password"
+                            inputMode="numeric"
+                            autoComplete="off"
+                            maxLength={MAX_PIN_LENGTH}
+                            value={pin}
+                            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                            placeholder={initialSettings.pinHash ? 'Keep current PIN' : `${MIN_PIN_LENGTH}–${MAX_PIN_LENGTH} digits`}
+                            className={inputClasses}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs text-neutral-400">
+                        Confirm PIN
+                        <input
+                            type="password"
+                            inputMode="numeric"
+                            autoComplete="off"
+                            maxLength={MAX_PIN_LENGTH}
+                            value={confirmPin}
+                            onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                            className={inputClasses}
+                        />
+                    </label>
+                </div>
+                <p className="text-xs text-neutral-500">The PIN is needed to leave kiosk mode, via the lock in the top-right corner.</p>
+                <div className="flex justify-end gap-4">
+                    <button type="button" onClick={onCancel} className={secondaryButtonClasses}>Cancel</button>
+                    <button type="submit" disabled={!canStart} className={primaryButtonClasses}>Start</button>
+                </div>
+            </form>
+        </motion.div>
+    );
+};
+
+export default KioskSetup;
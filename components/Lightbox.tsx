@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { DEFAULT_ZOOM_VIEW, LIGHTBOX_ZOOM_STEP, MAX_LIGHTBOX_ZOOM, clampZoomView, zoomAtPoint } from '../lib/comparison';
+import type { ZoomView } from '../lib/comparison';
+
+interface LightboxProps {
+    imageUrl: string;
+    caption: string;
+    /** The original photo; a hold-to-compare button appears when given. */
+    originalUrl?: string;
+    onClose: () => void;
+}
+
+const controlClasses = "w-10 h-10 flex items-center justify-center rounded-full bg-white/10 text-white text-lg hover:bg-white/25 transition-colors disabled:opacity-40";
+
+const Lightbox: React.FC<LightboxProps> = ({ imageUrl, caption, originalUrl, onClose }) => {
+    const [view, setView] = useState<ZoomView>(DEFAULT_ZOOM_VIEW);
+    const [isComparing, setIsComparing] = useState(false);
+    const imageRef = useRef<HTMLImageElement>(null);
+    // Active pointers, for panning with one and pinching with two
+    const pointers = useRef(new Map<number, { x: number; y: number }>());
+    const pinchDistance = useRef<number | null>(null);
+
+    // The image's unzoomed size and center; transforms don't affect offsetWidth/offsetHeight
+    const getImageBox = () => {
+        const image = imageRef.current;
+        if (!image) return null;
+        const parent = image.parentElement!.getBoundingClientRect();
+        return {
+            width: image.offsetWidth,
+            height: image.offsetHeight,
+            centerX: parent.left + parent.width / 2,
+            centerY: parent.top + parent.height / 2,
+        };
+    };
+
+    const zoomTo = (scale: number, clientX?: number, clientY?: number) => {
+        const box = getImageBox();
+        if (!box) return;
+        setView(prev => zoomAtPoint(prev, scale, (clientX ?? box.centerX) - box.centerX, (clientY ?? box.centerY) - box.centerY, box.width, box.height));
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+            else if (e.key === '+' || e.key === '=') zoomTo(view.scale * LIGHTBOX_ZOOM_STEP);
+            else if (e.key === '-') zoomTo(view.scale / LIGHTBOX_ZOOM_STEP);
+            else if (e.key === '0') setView(DEFAULT_ZOOM_VIEW);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    const handleWheel = (e: React.WheelEvent) => {
+        zoomTo(view.scale * (e.deltaY < 0 ? 1.1 : 1 / 1.1), e.clientX, e.clientY);
+    };
+
+    const handleDoubleClick = (e: React.MouseEvent) => {
+        if (view.scale > 1) setView(DEFAULT_ZOOM_VIEW);
+        else zoomTo(LIGHTBOX_ZOOM_STEP * LIGHTBOX_ZOOM_STEP, e.clientX, e.clientY);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        pinchDistance.current = null;
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const previous = pointers.current.get(e.pointerId);
+        if (!previous) return;
+        pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+        if (pointers.current.size === 2) {
+            const [a, b] = [...pointers.current.values()];
+            const distance = Math.hypot(a.x - b.x, a.y - b.y);
+            if (pinchDistance.current) {
+                zoomTo(view.scale * (distance / pinchDistance.current), (a.x + b.x) / 2, (a.y + b.y) / 2);
+            }
+            pinchDistance.current = distance;
+            return;
+        }
+
+        const box = getImageBox();
+        if (!box) return;
+        setView(prev => clampZoomView({ ...prev, x: prev.x + e.clientX - previous.x, y: prev.y + e.clientY - previous.y }, box.width, box.height));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        pointers.current.delete(e.pointerId);
+        pinchDistance.current = null;
+    };
+
+    return (
+        <motion.div
+            className="fixed inset-0 bg-black/95 z-50 flex flex-col"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            role="dialog"
+            aria-label={`${caption}, enlarged`}
+        >
+            <div className="flex items-center justify-between gap-4 p-4">
+                <p className="font-permanent-marker text-xl text-neutral-200 truncate">{caption}</p>
+                <button onClick={onClose} className={controlClasses} aria-label="Close">✕</button>
+            </div>
+            <div
+                className="relative flex-1 min-h-0 flex items-center justify-center overflow-hidden touch-none select-none"
+                style={{ cursor: view.scale > 1 ? 'grab' : 'zoom-in' }}
+                onWheel={handleWheel}
+                onDoubleClick={handleDoubleClick}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                <img
+                    ref={imageRef}
+                    src={isComparing && originalUrl ? originalUrl : imageUrl}
+                    alt={isComparing ? `Original photo for ${caption}` : caption}
+                    draggable={false}
+                    className="max-w-full max-h-full object-contain pointer-events-none"
+                    style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+                />
+            </div>
+            <div className="flex items-center justify-center gap-3 p-4">
+                <button onClick={() => zoomTo(view.scale / LIGHTBOX_ZOOM_STEP)} disabled={view.scale <= 1} className={controlClasses} aria-label="Zoom out">−</button>
+                <button onClick={() => setView(DEFAULT_ZOOM_VIEW)} className="text-sm text-neutral-300 hover:text-white w-14" aria-label="Reset zoom">
+                    {Math.round(view.scale * 100)}%
+                </button>
+                <button onClick={() => zoomTo(view.scale * LIGHTBOX_ZOOM_STEP)} disabled={view.scale >= MAX_LIGHTBOX_ZOOM} className={controlClasses} aria-label="Zoom in">+</button>
+                {originalUrl && (
+                    <button
+                        onPointerDown={() => setIsComparing(true)}
+                        onPointerUp={() => setIsComparing(false)}
+                        onPointerLeave={() => setIsComparing(false)}
+                        onKeyDown={(e) => { if (e.key === ' ') setIsComparing(true); }}
+                        onKeyUp={(e) => { if (e.key === ' ') setIsComparing(false); }}
+                        className="ml-4 text-sm text-neutral-300 hover:text-white underline underline-offset-4 select-none"
+                    >
+                        {isComparing ? 'Showing original' : 'Hold to compare'}
+                    </button>
+                )}
+            </div>
+        </motion.div>
+    );
+};
+
+export default Lightbox;
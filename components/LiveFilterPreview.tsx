@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { LIVE_FILTERS, LIVE_FILTER_MAX_WIDTH, createNoiseTile, drawLiveFilterFrame, getAdjacentLiveFilter, getLiveFilter } from '../lib/liveFilters';
+
+interface LiveFilterPreviewProps {
+    /** The camera video, which keeps playing underneath the filtered canvas. */
+    videoRef: React.RefObject<HTMLVideoElement>;
+    filterId: string;
+    onFilterChange: (id: string) => void;
+    mirror: boolean;
+}
+
+// How far a swipe has to travel to change the filter
+const SWIPE_THRESHOLD = 50;
+
+const LiveFilterPreview: React.FC<LiveFilterPreviewProps> = ({ videoRef, filterId, onFilterChange, mirror }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const filter = getLiveFilter(filterId);
+    const isFiltered = filter.id !== 'none';
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || !isFiltered) return;
+
+        // Browsers without canvas filters (older Safari) get the color filter on the element instead
+        const supportsCanvasFilter = 'filter' in ctx;
+        canvas.style.filter = supportsCanvasFilter ? '' : filter.cssFilter;
+        const noise = createNoiseTile();
+        let frame = 0;
+
+        const draw = () => {
+            const video = videoRef.current;
+            if (video && video.readyState >= 2 && video.videoWidth) {
+                const scale = Math.min(1, LIVE_FILTER_MAX_WIDTH / video.videoWidth);
+                const width = Math.round(video.videoWidth * scale);
+                const height = Math.round(video.videoHeight * scale);
+                if (canvas.width !== width || canvas.height !== height) {
+                    canvas.width = width;
+                    canvas.height = height;
+                }
+                drawLiveFilterFrame(ctx, video, width, height, filter, noise, supportsCanvasFilter);
+            }
+            frame = requestAnimationFrame(draw);
+        };
+        frame = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(frame);
+    }, [filter, isFiltered, videoRef]);
+
+    const step = (direction: 1 | -1) => onFilterChange(getAdjacentLiveFilter(filterId, direction).id);
+
+    return (
+        <motion.div
+            className="absolute inset-0 touch-pan-y select-none"
+            onPanEnd={(_, info) => {
+                if (info.offset.x <= -SWIPE_THRESHOLD) step(1);
+                else if (info.offset.x >= SWIPE_THRESHOLD) step(-1);
+            }}
+        >
+            <canvas
+                ref={canvasRef}
+                className={cn("w-full h-full object-cover", mirror && "transform -scale-x-100", !isFiltered && "hidden")}
+            />
+            <button
+                onClick={() => step(-1)}
+                className="absolute left-2 top-1/2 -translate-y-1/2 w-9 h-9 hidden md:flex items-center justify-center rounded-full bg-black/40 text-white hover:bg-black/70 transition-colors"
+                aria-label="Previous era filter"
+            >
+                ‹
+            </button>
+            <button
+                onClick={() => step(1)}
+                className="absolute right-2 top-1/2 -translate-y-1/2 w-9 h-9 hidden md:flex items-center justify-center rounded-full bg-black/40 text-white hover:bg-black/70 transition-colors"
+                aria-label="Next era filter"
+            >
+                ›
+            </button>
+            <div className="absolute bottom-3 inset-x-0 flex flex-col items-center gap-2 pointer-events-none">
+                <AnimatePresence mode="wait">
+                    <motion.span
+                        key={filter.id}
+                        className="font-permanent-marker text-lg text-white bg-black/40 rounded-full px-4 py-1"
+                        initial={{ opacity: 0, y: 6 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -6 }}
+                        transition={{ duration: 0.2 }}
+                        aria-live="polite"
+                    >
+                        {filter.label}
+                    </motion.span>
+                </AnimatePresence>
+                <div className="flex gap-1.5">
+                    {LIVE_FILTERS.map(option => (
+                        <span
+                            key={option.id}
+                            className={cn("w-1.5 h-1.5 rounded-full", option.id === filter.id ? "bg-yellow-400" : "bg-white/40")}
+                        />
+                    ))}
+                </div>
+            </div>
+        </motion.div>
+    );
+};
+
+export default LiveFilterPreview;
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef } from 'react';
+import { cn } from '../lib/utils';
+import { primaryButtonClasses, secondaryButtonClasses } from '../lib/buttonStyles';
+import { ASPECT_PRESETS, DEFAULT_CROP_STATE, MAX_ZOOM, MIN_ZOOM, clampOffset, getCropTransform } from '../lib/imageCrop';
+import type { CropState } from '../lib/imageCrop';
+
+interface PhotoCropperProps {
+    imageUrl: string;
+    initialCrop?: CropState;
+    onApply: (crop: CropState) => void;
+    onCancel: () => void;
+}
+
+// Matches the photo area of a PolaroidCard
+const PREVIEW_WIDTH = 288;
+const MAX_PREVIEW_HEIGHT = 400;
+
+const normalizeRotation = (degrees: number) => ((((degrees + 180) % 360) + 360) % 360) - 180;
+
+const PhotoCropper: React.FC<PhotoCropperProps> = ({ imageUrl, initialCrop = DEFAULT_CROP_STATE, onApply, onCancel }) => {
+    const [crop, setCrop] = useState<CropState>(initialCrop);
+    const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+    const dragStart = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+
+    const frameAspect = crop.aspect ?? (naturalSize ? naturalSize.width / naturalSize.height : 1);
+    const frameWidth = Math.min(PREVIEW_WIDTH, MAX_PREVIEW_HEIGHT * frameAspect);
+    const frameHeight = frameWidth / frameAspect;
+    const transform = naturalSize && getCropTransform(naturalSize.width, naturalSize.height, frameWidth, frameHeight, crop);
+
+    const updateCrop = (changes: Partial<CropState>) => {
+        setCrop(prev => {
+            const next = { ...prev, ...changes };
+            return { ...next, offsetX: clampOffset(next.offsetX, next.zoom), offsetY: clampOffset(next.offsetY, next.zoom) };
+        });
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragStart.current = { x: e.clientX, y: e.clientY, offsetX: crop.offsetX, offsetY: crop.offsetY };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const start = dragStart.current;
+        if (!start) return;
+        updateCrop({
+            offsetX: start.offsetX + (e.clientX - start.x) / frameWidth,
+            offsetY: start.offsetY + (e.clientY - start.y) / frameHeight,
+        });
+    };
+
+    const handlePointerUp = () => {
+        dragStart.current = null;
+    };
+
+    const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+        const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, crop.zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+        updateCrop({ zoom });
+    };
+
+    return (
+        <div className="flex flex-col items-center gap-4">
+            <div className="bg-neutral-100 p-4 pb-16 w-80 max-w-full rounded-md shadow-lg relative flex justify-center">
+                <div
+                    className="relative overflow-hidden bg-neutral-900 cursor-move touch-none select-none"
+                    style={{ width: frameWidth, height: frameHeight }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    onWheel={handleWheel}
+                >
+                    <img
+                        src={imageUrl}
+                        alt="Photo being cropped"
+                        draggable={false}
+                        onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                        className="absolute left-1/2 top-1/2 max-w-none pointer-events-none"
+                        style={transform ? {
+                            width: naturalSize!.width,
+                            height: naturalSize!.height,
+                            transform: `translate(-50%, -50%) translate(${transform.translateX}px, ${transform.translateY}px) rotate(${transform.rotation}deg) scale(${transform.scale})`,
+                        } : { opacity: 0 }}
+                    />
+                    {/* Rule-of-thirds guides to help place faces */}
+                    <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3" aria-hidden="true">
+                        {Array.from({ length: 9 }).map((_, i) => (
+                            <div key={i} className="border border-white/15" />
+                        ))}
+                    </div>
+                </div>
+                <p className="absolute bottom-4 left-4 right-4 text-center font-permanent-marker text-lg text-neutral-800">
+                    Frame your photo
+                </p>
+            </div>
+
+            <div className="w-80 max-w-full flex flex-col gap-3 text-sm text-neutral-300">
+                <div className="flex flex-wrap justify-center gap-2">
+                    {ASPECT_PRESETS.map(preset => (
+                        <button
+                            key={preset.id}
+                            onClick={() => updateCrop({ aspect: preset.aspect })}
+                            aria-pressed={crop.aspect === preset.aspect}
+                            className={cn(
+                                "py-1 px-3 rounded-full border transition-colors duration-200",
+                                crop.aspect === preset.aspect
+                                    ? "bg-yellow-400 border-yellow-400 text-black"
+                                    : "border-white/30 hover:border-white",
+                            )}
+                        >
+                            {preset.label}
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center gap-3">
+                    <span className="w-16">Zoom</span>
+                    <input
+                        type="range"
+                        min={MIN_ZOOM}
+                        max={MAX_ZOOM}
+                        step={0.01}
+                        value={crop.zoom}
+                        onChange={(e) => updateCrop({ zoom: Number(e.target.value) })}
+                        className="flex-1 accent-yellow-400"
+                    />
+                </label>
+                <label className="flex items-center gap-3">
+                    <span className="w-16">Rotate</span>
+                    <input
+                        type="range"
+                        min={-180}
+                        max={180}
+                        step={1}
+                        value={crop.rotation}
+                        onChange={(e) => updateCrop({ rotation: Number(e.target.value) })}
+                        className="flex-1 accent-yellow-400"
+                    />
+                    <button
+                        onClick={() => updateCrop({ rotation: normalizeRotation(crop.rotation + 90) })}
+                        className="px-2 py-1 rounded-sm border border-white/30 hover:border-white"
+                        aria-label="Rotate 90 degrees"
+                    >
+                        90&deg;
+                    </button>
+                </label>
+                <button onClick={() => setCrop({ ...DEFAULT_CROP_STATE, aspect: crop.aspect })} className="self-center text-neutral-400 hover:text-white underline underline-offset-4">
+                    Reset
+                </button>
+            </div>
+
+            <div className="flex items-center gap-4">
+                <button onClick={onCancel} className={secondaryButtonClasses}>Cancel</button>
+                <button onClick={() => onApply(crop)} className={primaryButtonClasses} disabled={!naturalSize}>Apply</button>
+            </div>
+        </div>
+    );
+};
+
+export default PhotoCropper;
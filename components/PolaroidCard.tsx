@@ -4,20 +4,49 @@
 */
 import React, { useState, useEffect, useRef } from 'react';
 import { DraggableCardContainer, DraggableCardBody } from './ui/draggable-card';
+import ComparisonView from './ComparisonView';
 import { cn } from '../lib/utils';
 import type { PanInfo } from 'framer-motion';
-
-type ImageStatus = 'pending' | 'done' | 'error';
+import type { GenerationErrorCode } from '../services/generationErrors';
+import { DATE_STAMP_COLOR, DATE_STAMP_FONT } from '../lib/captions';
+import { getComparisonLabel, getNextComparisonMode } from '../lib/comparison';
+import type { ComparisonMode } from '../lib/comparison';
+import type { CardCaption, HandwritingFont } from '../lib/captions';
+import type { ImageStatus } from '../types';
 
 interface PolaroidCardProps {
+    /** Identifies the card in callbacks; defaults to the caption. */
+    id?: string;
     imageUrl?: string;
     caption: string;
     status: ImageStatus;
     error?: string;
+    errorCode?: GenerationErrorCode;
     dragConstraintsRef?: React.RefObject<HTMLElement>;
-    onShake?: (caption: string) => void;
-    onDownload?: (caption: string) => void;
+    onShake?: (id: string) => void;
+    onDownload?: (id: string) => void;
     isMobile?: boolean;
+    /** Number of generated variants; flip and favorite controls appear when there is more than one. */
+    variantCount?: number;
+    /** Index of the variant currently shown. */
+    variantIndex?: number;
+    favoriteIndex?: number;
+    onVariantChange?: (id: string, index: number) => void;
+    onFavorite?: (id: string, index: number) => void;
+    /** Desktop only: the card was picked up. */
+    onDragStart?: (id: string) => void;
+    /** Desktop only: the card came to rest at these bounds. */
+    onDragSettled?: (id: string, rect: DOMRect) => void;
+    /** The caption's handwriting; Permanent Marker when unset. */
+    captionFont?: HandwritingFont;
+    /** Printed in the photo's corner; undefined when date stamps are off. */
+    dateStamp?: string;
+    /** Makes the caption (and the date stamp, when shown) editable. */
+    onCaptionChange?: (id: string, caption: CardCaption) => void;
+    /** The photo the result was generated from; enables the before/after comparison. */
+    originalUrl?: string;
+    /** Opens the result full screen for zooming in. */
+    onOpenLightbox?: (id: string) => void;
 }
 
 const LoadingSpinner = () => (
@@ -29,13 +58,71 @@ const LoadingSpinner = () => (
     </div>
 );
 
-const ErrorDisplay = () => (
-    <div className="flex items-center justify-center h-full">
-         <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-        </svg>
-    </div>
-);
+// What to tell the user for each kind of failure, and whether retrying makes sense
+const ERROR_PRESENTATION: Record<GenerationErrorCode, { title: string; hint: string; retryLabel?: string }> = {
+    SAFETY_BLOCKED: { title: 'Blocked by safety filters', hint: 'Try again, or use a different photo or prompt.', retryLabel: 'Try again' },
+    NO_IMAGE: { title: 'No photo came back', hint: 'The model answered with text only.', retryLabel: 'Try again' },
+    RATE_LIMITED: { title: 'Too many requests', hint: 'The API quota was reached. Wait a moment before retrying.', retryLabel: 'Retry' },
+    SERVER_ERROR: { title: 'Server hiccup', hint: 'The service had a temporary problem.', retryLabel: 'Retry' },
+    INVALID_INPUT: { title: "Photo couldn't be used", hint: 'Try a different photo (JPEG, PNG or WebP).' },
+    AUTH: { title: 'API key problem', hint: 'Check that a valid Gemini API key is configured.' },
+    NETWORK: { title: 'No connection', hint: 'Check your internet connection.', retryLabel: 'Retry' },
+    CANCELLED: { title: 'Not developed', hint: 'This photo was cancelled.', retryLabel: 'Develop' },
+    UNKNOWN: { title: 'Something went wrong', hint: 'The photo could not be generated.', retryLabel: 'Try again' },
+};
+
+const ErrorDisplay = ({ code = 'UNKNOWN', message, onRetry }: { code?: GenerationErrorCode; message?: string; onRetry?: () => void }) => {
+    const { title, hint, retryLabel } = ERROR_PRESENTATION[code];
+    return (
+        <div className="flex flex-col items-center justify-center h-full gap-2 p-4 text-center" title={message}>
+             <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-sm font-bold text-neutral-200">{title}</p>
+            <p className="text-xs text-neutral-400">{hint}</p>
+            {retryLabel && onRetry && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation(); // Prevent drag from starting on click
+                        onRetry();
+                    }}
+                    className="mt-1 text-xs font-bold text-black bg-yellow-400 hover:bg-yellow-300 rounded-sm px-3 py-1"
+                >
+                    {retryLabel}
+                </button>
+            )}
+        </div>
+    );
+};
+
+// A failed regeneration on a card that still has earlier photos; those stay usable, so the error
+// sits on top of them instead of replacing them
+const ErrorBadge = ({ code = 'UNKNOWN', message, onRetry }: { code?: GenerationErrorCode; message?: string; onRetry?: () => void }) => {
+    const { title, retryLabel } = ERROR_PRESENTATION[code];
+    return (
+        <div
+            className="absolute bottom-2 left-2 z-20 max-w-[75%] flex items-center gap-1.5 bg-black/70 rounded-full pl-2 pr-1 py-1 text-xs text-neutral-100"
+            role="status"
+            title={message}
+        >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 shrink-0 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="truncate">{title}</span>
+            {retryLabel && onRetry && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation(); // Prevent drag from starting on click
+                        onRetry();
+                    }}
+                    className="shrink-0 font-bold text-black bg-yellow-400 hover:bg-yellow-300 rounded-full px-2 py-0.5"
+                >
+                    {retryLabel}
+                </button>
+            )}
+        </div>
+    );
+};
 
 const Placeholder = () => (
     <div className="flex flex-col items-center justify-center h-full text-neutral-500 group-hover:text-neutral-300 transition-colors duration-300">
@@ -48,9 +135,15 @@ const Placeholder = () => (
 );
 
 
-const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, dragConstraintsRef, onShake, onDownload, isMobile }) => {
+const PolaroidCard: React.FC<PolaroidCardProps> = ({ id, imageUrl, caption, status, error, errorCode, dragConstraintsRef, onShake, onDownload, isMobile, variantCount = 0, variantIndex = 0, favoriteIndex, onVariantChange, onFavorite, onDragStart, onDragSettled, captionFont, dateStamp, onCaptionChange, originalUrl, onOpenLightbox }) => {
+    const cardId = id ?? caption;
+    const hasVariants = variantCount > 1 && status === 'done';
+    const isFavorite = variantIndex === favoriteIndex;
     const [isDeveloped, setIsDeveloped] = useState(false);
     const [isImageLoaded, setIsImageLoaded] = useState(false);
+    const [isEditingCaption, setIsEditingCaption] = useState(false);
+    const [draftCaption, setDraftCaption] = useState<Required<CardCaption>>({ text: '', date: '' });
+    const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('off');
     const lastShakeTime = useRef(0);
     const lastVelocity = useRef({ x: 0, y: 0 });
 
@@ -79,6 +172,7 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
     const handleDragStart = () => {
         // Reset velocity on new drag to prevent false triggers from old data
         lastVelocity.current = { x: 0, y: 0 };
+        onDragStart?.(cardId);
     };
 
     const handleDrag = (event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
@@ -99,17 +193,41 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
 
         if (magnitude > velocityThreshold && dotProduct < 0 && (now - lastShakeTime.current > shakeCooldown)) {
             lastShakeTime.current = now;
-            onShake(caption);
+            onShake(cardId);
         }
 
         lastVelocity.current = { x, y };
     };
 
+    const handleStartEditing = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        setDraftCaption({ text: caption, date: dateStamp ?? '' });
+        setIsEditingCaption(true);
+    };
+
+    const handleFinishEditing = () => {
+        if (!isEditingCaption) return;
+        setIsEditingCaption(false);
+        onCaptionChange?.(cardId, dateStamp === undefined ? { text: draftCaption.text } : draftCaption);
+    };
+
+    const handleEditorKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') handleFinishEditing();
+        if (e.key === 'Escape') setIsEditingCaption(false);
+    };
+
+    const captionStyle: React.CSSProperties | undefined = captionFont && {
+        fontFamily: captionFont.family,
+        fontSize: `${1.125 * captionFont.scale}rem`,
+    };
+
     const cardInnerContent = (
         <>
             <div className="w-full bg-neutral-900 shadow-inner flex-grow relative overflow-hidden group">
                 {status === 'pending' && <LoadingSpinner />}
-                {status === 'error' && <ErrorDisplay />}
+                {status === 'error' && (
+                    <ErrorDisplay code={errorCode} message={error} onRetry={onShake && (() => onShake(cardId))} />
+                )}
                 {status === 'done' && imageUrl && (
                     <>
                         <div className={cn(
@@ -120,7 +238,7 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                                 <button
                                     onClick={(e) => {
                                         e.stopPropagation(); // Prevent drag from starting on click
-                                        onDownload(caption);
+                                        onDownload(cardId);
                                     }}
                                     className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
                                     aria-label={`Download image for ${caption}`}
@@ -129,12 +247,62 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                                         <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                                     </svg>
                                 </button>
+                            )}
+                            {originalUrl && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        setComparisonMode(getNextComparisonMode(comparisonMode));
+                                    }}
+                                    className={cn(
+                                        "p-2 bg-black/50 rounded-full hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white",
+                                        comparisonMode !== 'off' ? "text-yellow-400" : "text-white",
+                                    )}
+                                    aria-label={`Compare with the original: ${getComparisonLabel(getNextComparisonMode(comparisonMode))}`}
+                                    title={`Compare: ${getComparisonLabel(getNextComparisonMode(comparisonMode))}`}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v18M5 5h4v14H5a2 2 0 01-2-2V7a2 2 0 012-2zm10 0h4a2 2 0 012 2v10a2 2 0 01-2 2h-4" />
+                                    </svg>
+                                </button>
+                            )}
+                            {onOpenLightbox && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onOpenLightbox(cardId);
+                                    }}
+                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                                    aria-label={`Enlarge image for ${caption}`}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v6m3-3H7" />
+                                    </svg>
+                                </button>
+                            )}
+                            {hasVariants && onFavorite && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onFavorite(cardId, variantIndex);
+                                    }}
+                                    className={cn(
+                                        "p-2 bg-black/50 rounded-full hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white",
+                                        isFavorite ? "text-yellow-400" : "text-white",
+                                    )}
+                                    aria-label={isFavorite ? `Favorite image for ${caption}` : `Mark as favorite image for ${caption}`}
+                                    aria-pressed={isFavorite}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill={isFavorite ? "currentColor" : "none"} stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.5a.56.56 0 011.04 0l2.13 5.11a.56.56 0 00.48.35l5.52.44c.5.04.7.66.32.99l-4.2 3.6a.56.56 0 00-.18.56l1.28 5.39a.56.56 0 01-.84.61l-4.72-2.89a.56.56 0 00-.59 0l-4.72 2.89a.56.56 0 01-.84-.61l1.28-5.39a.56.56 0 00-.18-.56l-4.2-3.6a.56.56 0 01.32-.99l5.52-.44a.56.56 0 00.48-.35l2.13-5.11z" />
+                                    </svg>
+                                </button>
                             )}
                              {isMobile && onShake && (
                                 <button
                                     onClick={(e) => {
                                         e.stopPropagation();
-                                        onShake(caption);
+                                        onShake(cardId);
                                     }}
                                     className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
                                     aria-label={`Regenerate image for ${caption}`}
@@ -147,6 +315,16 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                         </div>
 
 
+                        {hasVariants && (
+                            <span className="absolute top-2 left-2 z-20 text-xs text-white bg-black/50 rounded-full px-2 py-0.5">
+                                {variantIndex + 1}/{variantCount}
+                            </span>
+                        )}
+
+                        {originalUrl && comparisonMode !== 'off' && (
+                            <ComparisonView mode={comparisonMode} beforeUrl={originalUrl} afterUrl={imageUrl} caption={caption} />
+                        )}
+
                         {/* The developing chemical overlay - fades out */}
                         <div
                             className={`absolute inset-0 z-10 bg-[#3a322c] transition-opacity duration-[3500ms] ease-out ${
@@ -155,6 +333,19 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                             aria-hidden="true"
                         />
                         
+                        {dateStamp && (
+                            <span
+                                className={cn(
+                                    "absolute bottom-2 right-3 z-20 text-xl tracking-wider pointer-events-none transition-opacity duration-[4000ms]",
+                                    isDeveloped ? "opacity-90" : "opacity-0",
+                                )}
+                                style={{ fontFamily: DATE_STAMP_FONT, color: DATE_STAMP_COLOR, textShadow: `0 0 6px ${DATE_STAMP_COLOR}` }}
+                                aria-hidden="true"
+                            >
+                                {dateStamp}
+                            </span>
+                        )}
+
                         {/* The Image - fades in and color corrects */}
                         <img
                             key={imageUrl}
@@ -171,14 +362,81 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                     </>
                 )}
                 {status === 'done' && !imageUrl && <Placeholder />}
+                {/* A cancelled regeneration isn't worth flagging; the earlier photo is simply kept */}
+                {error && status !== 'error' && errorCode !== 'CANCELLED' && (
+                    <ErrorBadge code={errorCode} message={error} onRetry={onShake && (() => onShake(cardId))} />
+                )}
             </div>
-            <div className="absolute bottom-4 left-4 right-4 text-center px-2">
-                <p className={cn(
-                    "font-permanent-marker text-lg truncate",
-                    status === 'done' && imageUrl ? 'text-black' : 'text-neutral-800'
-                )}>
-                    {caption}
-                </p>
+            <div className="absolute bottom-4 left-4 right-4 text-center px-2 flex items-center justify-center gap-2">
+                {hasVariants && onVariantChange && !isEditingCaption && (
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onVariantChange(cardId, (variantIndex - 1 + variantCount) % variantCount);
+                        }}
+                        className="text-neutral-500 hover:text-black text-2xl leading-none px-1"
+                        aria-label={`Previous variant for ${caption}`}
+                    >
+                        &lsaquo;
+                    </button>
+                )}
+                {isEditingCaption ? (
+                    <div className="flex flex-col gap-1 w-full" onBlur={(e) => {
+                        // Only finish once focus leaves the editor, not when moving between its fields
+                        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) handleFinishEditing();
+                    }}>
+                        <input
+                            value={draftCaption.text}
+                            onChange={(e) => setDraftCaption(draft => ({ ...draft, text: e.target.value }))}
+                            onKeyDown={handleEditorKeyDown}
+                            aria-label={`Caption for ${caption}`}
+                            className="w-full bg-white border-b border-neutral-400 text-center text-black focus:outline-none"
+                            style={captionStyle}
+                            autoFocus
+                        />
+                        {dateStamp !== undefined && (
+                            <input
+                                value={draftCaption.date}
+                                onChange={(e) => setDraftCaption(draft => ({ ...draft, date: e.target.value }))}
+                                onKeyDown={handleEditorKeyDown}
+                                placeholder="Date stamp, e.g. '78 6 14"
+                                aria-label={`Date stamp for ${caption}`}
+                                className="w-full bg-white border-b border-neutral-300 text-center text-xs text-neutral-600 focus:outline-none"
+                            />
+                        )}
+                    </div>
+                ) : onCaptionChange ? (
+                    <button
+                        onClick={handleStartEditing}
+                        title="Edit caption"
+                        className={cn(
+                            "font-permanent-marker text-lg truncate hover:underline decoration-dotted underline-offset-4",
+                            status === 'done' && imageUrl ? 'text-black' : 'text-neutral-800'
+                        )}
+                        style={captionStyle}
+                    >
+                        {caption}
+                    </button>
+                ) : (
+                    <p className={cn(
+                        "font-permanent-marker text-lg truncate",
+                        status === 'done' && imageUrl ? 'text-black' : 'text-neutral-800'
+                    )} style={captionStyle}>
+                        {caption}
+                    </p>
+                )}
+                {hasVariants && onVariantChange && !isEditingCaption && (
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onVariantChange(cardId, (variantIndex + 1) % variantCount);
+                        }}
+                        className="text-neutral-500 hover:text-black text-2xl leading-none px-1"
+                        aria-label={`Next variant for ${caption}`}
+                    >
+                        &rsaquo;
+                    </button>
+                )}
             </div>
         </>
     );
@@ -198,6 +456,7 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                 dragConstraintsRef={dragConstraintsRef}
                 onDragStart={handleDragStart}
                 onDrag={handleDrag}
+                onDragSettled={(rect) => onDragSettled?.(cardId, rect)}
             >
                 {cardInnerContent}
             </DraggableCardBody>
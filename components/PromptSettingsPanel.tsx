@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { cn } from '../lib/utils';
+import { STYLE_MODIFIERS } from '../lib/promptTemplate';
+import type { PromptSettings } from '../lib/promptTemplate';
+
+interface PromptSettingsPanelProps {
+    settings: PromptSettings;
+    onChange: (settings: PromptSettings) => void;
+    /** The rendered prompt for one of the selected eras, shown as a live preview. */
+    previewPrompt?: string;
+}
+
+const inputClasses = "bg-black/40 border border-white/20 rounded-sm px-3 py-2 text-sm text-neutral-100 placeholder:text-neutral-500 focus:outline-none focus:border-yellow-400";
+
+const TEXT_FIELDS: { key: 'subjectType' | 'photoMedium' | 'region' | 'mood'; label: string; placeholder: string }[] = [
+    { key: 'subjectType', label: 'Subject', placeholder: 'people, pets, a family...' },
+    { key: 'photoMedium', label: 'Medium', placeholder: "Era default (e.g. photograph)" },
+    { key: 'region', label: 'Country / region', placeholder: 'e.g. Italy, the American Midwest' },
+    { key: 'mood', label: 'Mood', placeholder: 'e.g. joyful, moody, nostalgic' },
+];
+
+const PromptSettingsPanel: React.FC<PromptSettingsPanelProps> = ({ settings, onChange, previewPrompt }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const handleToggleModifier = (id: string) => {
+        const modifierIds = settings.modifierIds.includes(id)
+            ? settings.modifierIds.filter(modifierId => modifierId !== id)
+            : [...settings.modifierIds, id];
+        onChange({ ...settings, modifierIds });
+    };
+
+    return (
+        <div className="w-full max-w-xl flex flex-col items-center gap-3">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                aria-expanded={isOpen}
+                className="text-sm text-neutral-400 hover:text-white underline underline-offset-4"
+            >
+                {isOpen ? 'Hide prompt options' : 'Tune the prompt'}
+            </button>
+            {isOpen && (
+                <div className="w-full flex flex-col gap-3 bg-white/5 border border-white/10 rounded-md p-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        {TEXT_FIELDS.map(({ key, label, placeholder }) => (
+                            <label key={key} className="flex flex-col gap-1 text-xs text-neutral-400">
+                                {label}
+                                <input
+                                    value={settings[key]}
+                                    onChange={(e) => onChange({ ...settings, [key]: e.target.value })}
+                                    placeholder={placeholder}
+                                    className={inputClasses}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {STYLE_MODIFIERS.map(modifier => {
+                            const isActive = settings.modifierIds.includes(modifier.id);
+                            return (
+                                <button
+                                    key={modifier.id}
+                                    onClick={() => handleToggleModifier(modifier.id)}
+                                    aria-pressed={isActive}
+                                    className={cn(
+                                        "text-xs py-1 px-3 rounded-full border transition-colors duration-200",
+                                        isActive
+                                            ? "bg-yellow-400 border-yellow-400 text-black"
+                                            : "border-white/30 text-neutral-300 hover:border-white",
+                                    )}
+                                >
+                                    {modifier.label}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    {previewPrompt && (
+                        <p className="text-xs text-neutral-500 leading-relaxed">
+                            <span className="text-neutral-400">Preview: </span>{previewPrompt}
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PromptSettingsPanel;
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+import { ACCEPTED_IMAGE_TYPES, preprocessImageFile } from '../lib/imagePreprocessing';
+import { MAX_REFERENCE_IMAGES } from '../lib/referenceLibrary';
+import type { ReferenceImage, ReferenceLibrary } from '../lib/referenceLibrary';
+import type { Era } from '../lib/eraCatalog';
+
+interface ReferenceLibraryPanelProps {
+    eras: Era[];
+    library: ReferenceLibrary;
+    onAdd: (eraId: string, images: { name: string; dataUrl: string }[]) => void;
+    onToggle: (image: ReferenceImage) => void;
+    onRemove: (image: ReferenceImage) => void;
+}
+
+const ReferenceLibraryPanel: React.FC<ReferenceLibraryPanelProps> = ({ eras, library, onAdd, onToggle, onRemove }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [selectedEraId, setSelectedEraId] = useState<string | null>(null);
+    const [isReading, setIsReading] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const era = eras.find(e => e.id === selectedEraId) ?? eras[0];
+    const userImages = era ? library[era.id] ?? [] : [];
+    const catalogImages = era?.referenceImages ?? [];
+    const sentCount = Math.min(MAX_REFERENCE_IMAGES, catalogImages.length + userImages.filter(image => image.enabled).length);
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        if (!era || files.length === 0) return;
+        setIsReading(true);
+        const images: { name: string; dataUrl: string }[] = [];
+        for (const file of files) {
+            try {
+                images.push({ name: file.name, dataUrl: await preprocessImageFile(file) });
+            } catch (err) {
+                console.error(`Failed to read ${file.name}:`, err);
+            }
+        }
+        setIsReading(false);
+        if (images.length < files.length) {
+            alert("Some photos could not be read. Please try JPEG, PNG, WebP or HEIC images.");
+        }
+        if (images.length > 0) onAdd(era.id, images);
+    };
+
+    return (
+        <div className="w-full max-w-xl flex flex-col items-center gap-3">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                aria-expanded={isOpen}
+                className="text-sm text-neutral-400 hover:text-white underline underline-offset-4"
+            >
+                {isOpen ? 'Hide reference photos' : 'Reference photos'}
+            </button>
+            {isOpen && era && (
+                <div className="w-full flex flex-col gap-3 bg-white/5 border border-white/10 rounded-md p-3">
+                    <p className="text-xs text-neutral-400">
+                        Real photos from an era help match its grain, palette and framing. Up to {MAX_REFERENCE_IMAGES} per era are sent with your photo; tap one to switch it off.
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                        {eras.map(e => {
+                            const isActive = e.id === era.id;
+                            const count = (library[e.id]?.length ?? 0) + e.referenceImages.length;
+                            return (
+                                <button
+                                    key={e.id}
+                                    onClick={() => setSelectedEraId(e.id)}
+                                    aria-pressed={isActive}
+                                    className={cn(
+                                        "text-xs py-1 px-3 rounded-full border transition-colors duration-200",
+                                        isActive
+                                            ? "bg-yellow-400 border-yellow-400 text-black"
+                                            : "border-white/30 text-neutral-300 hover:border-white",
+                                    )}
+                                >
+                                    {e.label}{count > 0 && ` (${count})`}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                        {catalogImages.map(url => (
+                            <div key={url} className="relative">
+                                <img src={url} alt={`Built-in ${era.label} reference`} className="w-full aspect-square object-cover rounded-sm" />
+                                <span className="absolute bottom-1 left-1 text-[10px] px-1 rounded-sm bg-black/70 text-neutral-300">Built-in</span>
+                            </div>
+                        ))}
+                        {userImages.map(image => (
+                            <div key={image.id} className="relative">
+                                <button
+                                    onClick={() => onToggle(image)}
+                                    aria-pressed={image.enabled}
+                                    title={image.name}
+                                    className="block w-full"
+                                >
+                                    <img
+                                        src={image.dataUrl}
+                                        alt={image.name}
+                                        className={cn("w-full aspect-square object-cover rounded-sm transition-opacity", !image.enabled && "opacity-30 grayscale")}
+                                    />
+                                </button>
+                                <button
+                                    onClick={() => onRemove(image)}
+                                    className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black/60 text-white text-xs leading-none hover:bg-black"
+                                    aria-label={`Remove ${image.name}`}
+                                >
+                                    &times;
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={isReading}
+                            className="aspect-square rounded-sm border-2 border-dashed border-white/30 text-neutral-400 hover:border-white hover:text-white text-xs disabled:opacity-50"
+                        >
+                            {isReading ? 'Reading...' : '+ Add'}
+                        </button>
+                    </div>
+                    <input type="file" ref={fileInputRef} onChange={handleFileChange} accept={ACCEPTED_IMAGE_TYPES} multiple className="hidden" aria-hidden="true" />
+                    <p className="text-xs text-neutral-500">
+                        {sentCount === 0 ? `No references for ${era.label}.` : `${sentCount} sent with each ${era.label} photo.`}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReferenceLibraryPanel;
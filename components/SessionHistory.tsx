@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { secondaryButtonClasses } from '../lib/buttonStyles';
+import type { GeneratedImage, Session } from '../types';
+
+interface SessionHistoryProps {
+    sessions: Session[];
+    isLoading: boolean;
+    onOpen: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}
+
+const SessionRow: React.FC<{
+    session: Session;
+    onOpen: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+}> = ({ session, onOpen, onRename, onDelete }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [name, setName] = useState(session.name);
+
+    const completedCount = Object.values<GeneratedImage>(session.results).filter(result => result.status === 'done').length;
+
+    const commitRename = () => {
+        setIsEditing(false);
+        const trimmed = name.trim();
+        if (trimmed && trimmed !== session.name) {
+            onRename(session.id, trimmed);
+        } else {
+            setName(session.name);
+        }
+    };
+
+    return (
+        <li className="flex items-center gap-4 bg-white/5 border border-white/10 rounded-md p-3">
+            <img src={session.sourceImage} alt="" className="w-16 h-16 object-cover rounded-sm flex-shrink-0 bg-neutral-800" />
+            <div className="flex-1 min-w-0">
+                {isEditing ? (
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') {
+                                setName(session.name);
+                                setIsEditing(false);
+                            }
+                        }}
+                        className="w-full bg-black/40 border border-white/20 rounded-sm px-2 py-1 text-neutral-100 focus:outline-none focus:border-yellow-400"
+                        autoFocus
+                    />
+                ) : (
+                    <p className="font-permanent-marker text-lg text-neutral-100 truncate">{session.name}</p>
+                )}
+                <p className="text-xs text-neutral-500">
+                    {new Date(session.updatedAt).toLocaleString()} &middot; {completedCount}/{session.eras.length} eras
+                </p>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+                <button onClick={() => onOpen(session.id)} className="text-black bg-yellow-400 hover:bg-yellow-300 rounded-sm px-3 py-1 font-bold">
+                    Open
+                </button>
+                <button onClick={() => setIsEditing(true)} className="text-neutral-300 hover:text-white px-2 py-1">
+                    Rename
+                </button>
+                <button
+                    onClick={() => {
+                        if (confirm(`Delete "${session.name}"? This cannot be undone.`)) {
+                            onDelete(session.id);
+                        }
+                    }}
+                    className="text-neutral-400 hover:text-red-400 px-2 py-1"
+                >
+                    Delete
+                </button>
+            </div>
+        </li>
+    );
+};
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ sessions, isLoading, onOpen, onRename, onDelete, onClose }) => (
+    <div className="w-full max-w-2xl flex flex-col items-center gap-6">
+        <h2 className="font-permanent-marker text-3xl text-neutral-100">Your past sessions</h2>
+        {isLoading ? (
+            <p className="text-neutral-400">Loading...</p>
+        ) : sessions.length === 0 ? (
+            <p className="text-neutral-400">No saved sessions yet. Generate some photos and they will show up here.</p>
+        ) : (
+            <ul className="w-full flex flex-col gap-3 max-h-[60vh] overflow-y-auto pr-1">
+                {sessions.map(session => (
+                    <SessionRow key={session.id} session={session} onOpen={onOpen} onRename={onRename} onDelete={onDelete} />
+                ))}
+            </ul>
+        )}
+        <button onClick={onClose} className={secondaryButtonClasses}>
+            Back
+        </button>
+    </div>
+);
+
+export default SessionHistory;
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+import { ACCEPTED_IMAGE_TYPES, preprocessImageFile } from '../lib/imagePreprocessing';
+import { SUBJECT_MODES, describeMarkerPosition } from '../lib/subjects';
+import type { SubjectMarker, SubjectSettings } from '../lib/subjects';
+
+interface SubjectPanelProps {
+    settings: SubjectSettings;
+    onChange: (settings: SubjectSettings) => void;
+    /** The (cropped) source photo, on which people are marked in group mode. */
+    sourceImage: string;
+}
+
+const inputClasses = "bg-black/40 border border-white/20 rounded-sm px-3 py-2 text-sm text-neutral-100 placeholder:text-neutral-500 focus:outline-none focus:border-yellow-400";
+
+const SubjectPanel: React.FC<SubjectPanelProps> = ({ settings, onChange, sourceImage }) => {
+    const [isReading, setIsReading] = useState(false);
+    const companionInputRef = useRef<HTMLInputElement>(null);
+
+    const updateMarker = (id: string, update: Partial<SubjectMarker>) => {
+        onChange({ ...settings, markers: settings.markers.map(marker => marker.id === id ? { ...marker, ...update } : marker) });
+    };
+
+    const handleMarkPerson = (event: React.MouseEvent<HTMLDivElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        const marker: SubjectMarker = {
+            id: `${Date.now().toString(36)}-${settings.markers.length}`,
+            x: (event.clientX - rect.left) / rect.width,
+            y: (event.clientY - rect.top) / rect.height,
+            name: '',
+        };
+        onChange({ ...settings, markers: [...settings.markers, marker] });
+    };
+
+    const handleCompanionChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setIsReading(true);
+        try {
+            onChange({ ...settings, companionImage: await preprocessImageFile(file) });
+        } catch (err) {
+            console.error("Failed to read second photo:", err);
+            alert("Sorry, that photo could not be read. Please try a JPEG, PNG, WebP or HEIC image.");
+        } finally {
+            setIsReading(false);
+        }
+    };
+
+    return (
+        <div className="w-full max-w-xl flex flex-col items-center gap-3">
+            <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label="Who is in the photo">
+                {SUBJECT_MODES.map(mode => {
+                    const isActive = settings.mode === mode.id;
+                    return (
+                        <button
+                            key={mode.id}
+                            onClick={() => onChange({ ...settings, mode: mode.id })}
+                            role="radio"
+                            aria-checked={isActive}
+                            className={cn(
+                                "text-xs py-1 px-3 rounded-full border transition-colors duration-200",
+                                isActive
+                                    ? "bg-yellow-400 border-yellow-400 text-black"
+                                    : "border-white/30 text-neutral-300 hover:border-white",
+                            )}
+                        >
+                            {mode.label}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {settings.mode === 'group' && (
+                <div className="w-full flex flex-col gap-3 bg-white/5 border border-white/10 rounded-md p-3">
+                    <p className="text-xs text-neutral-400">
+                        Optionally tap each person to mark and name them. Everyone in the photo is restyled either way.
+                    </p>
+                    <div className="relative self-center cursor-crosshair" onClick={handleMarkPerson}>
+                        <img src={sourceImage} alt="Tap a person to mark them" className="max-h-64 rounded-sm select-none" draggable={false} />
+                        {settings.markers.map((marker, index) => (
+                            <span
+                                key={marker.id}
+                                className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full bg-yellow-400 text-black text-xs font-bold flex items-center justify-center shadow pointer-events-none"
+                                style={{ left: `${marker.x * 100}%`, top: `${marker.y * 100}%` }}
+                            >
+                                {index + 1}
+                            </span>
+                        ))}
+                    </div>
+                    {settings.markers.map((marker, index) => (
+                        <div key={marker.id} className="flex items-center gap-2">
+                            <span className="w-6 h-6 flex-shrink-0 rounded-full bg-yellow-400 text-black text-xs font-bold flex items-center justify-center">{index + 1}</span>
+                            <input
+                                value={marker.name}
+                                onChange={(e) => updateMarker(marker.id, { name: e.target.value })}
+                                placeholder={`Name (${describeMarkerPosition(marker)})`}
+                                aria-label={`Name of person ${index + 1}`}
+                                className={cn(inputClasses, "flex-1")}
+                            />
+                            <button
+                                onClick={() => onChange({ ...settings, markers: settings.markers.filter(m => m.id !== marker.id) })}
+                                className="text-sm text-neutral-400 hover:text-white"
+                                aria-label={`Remove person ${index + 1}`}
+                            >
+                                &times;
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {settings.mode === 'side-by-side' && (
+                <div className="w-full flex flex-col items-center gap-3 bg-white/5 border border-white/10 rounded-md p-3">
+                    <p className="text-xs text-neutral-400">
+                        Add a photo of a second person. They'll appear on the right, next to the person in your photo.
+                    </p>
+                    <div className="flex items-center gap-3">
+                        <img src={sourceImage} alt="First person" className="w-24 h-24 object-cover rounded-sm" />
+                        <span className="font-permanent-marker text-neutral-400">+</span>
+                        {settings.companionImage ? (
+                            <img src={settings.companionImage} alt="Second person" className="w-24 h-24 object-cover rounded-sm" />
+                        ) : (
+                            <div className="w-24 h-24 rounded-sm border-2 border-dashed border-white/20" />
+                        )}
+                    </div>
+                    <input type="file" ref={companionInputRef} onChange={handleCompanionChange} accept={ACCEPTED_IMAGE_TYPES} className="hidden" aria-hidden="true" />
+                    <button
+                        onClick={() => companionInputRef.current?.click()}
+                        disabled={isReading}
+                        className="text-sm text-neutral-400 hover:text-white underline underline-offset-4 disabled:opacity-50"
+                    >
+                        {isReading ? 'Reading photo...' : settings.companionImage ? 'Change second photo' : 'Choose second photo'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SubjectPanel;
@@ -21,12 +21,15 @@ export const DraggableCardBody = ({
   dragConstraintsRef,
   onDrag,
   onDragStart,
+  onDragSettled,
 }: {
   className?: string;
   children?: React.ReactNode;
   dragConstraintsRef?: React.RefObject<HTMLElement>;
   onDrag?: (event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => void;
   onDragStart?: (event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => void;
+  /** Called with the card's bounds once it has come to rest after a drag, momentum included. */
+  onDragSettled?: (rect: DOMRect) => void;
 }) => {
   const mouseX = useMotionValue(0);
   const mouseY = useMotionValue(0);
@@ -136,6 +139,9 @@ export const DraggableCardBody = ({
           mass: 0.8,
         });
       }}
+      onDragTransitionEnd={() => {
+        if (cardRef.current) onDragSettled?.(cardRef.current.getBoundingClientRect());
+      }}
       style={{
         rotateX,
         rotateY,
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Creates the error used when an operation is cancelled through an AbortSignal.
+ */
+export function createAbortError(message = 'The operation was cancelled.'): Error {
+    return new DOMException(message, 'AbortError');
+}
+
+/**
+ * Whether an error represents a cancellation rather than a failure.
+ * @param error The caught value.
+ */
+export function isAbortError(error: unknown): boolean {
+    return (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+}
+
+/**
+ * Throws an AbortError if the signal has already been aborted.
+ * @param signal The optional signal to check.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw isAbortError(signal.reason) ? signal.reason : createAbortError();
+    }
+}
+
+/**
+ * Waits for the given time, rejecting early with an AbortError if the signal fires.
+ * @param ms The delay in milliseconds.
+ * @param signal An optional signal that cancels the wait.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
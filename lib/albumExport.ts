@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { canvasToBlob } from './imageUtils';
+import { renderAlbumCanvas } from './albumUtils';
+import type { AlbumPageSize, AlbumRenderOptions } from './albumUtils';
+import type { CaptionedPhoto } from './captions';
+import type { AnimationTransition, VideoFormat } from './animationExport';
+
+export type AlbumExportFormat = 'jpeg' | 'png' | 'pdf';
+
+export interface PrintPreset {
+    id: string;
+    label: string;
+    /** Short side, in `unit`. */
+    width: number;
+    /** Long side, in `unit`. */
+    height: number;
+    /** Inch presets scale with the DPI; pixel presets are a fixed size for sharing online. */
+    unit: 'in' | 'px';
+}
+
+export const PRINT_PRESETS: PrintPreset[] = [
+    { id: 'a4', label: 'A4', width: 8.27, height: 11.69, unit: 'in' },
+    { id: 'letter', label: 'Letter', width: 8.5, height: 11, unit: 'in' },
+    { id: 'photo-4x6', label: '4×6 photo', width: 4, height: 6, unit: 'in' },
+    { id: 'square', label: 'Square (social)', width: 1080, height: 1080, unit: 'px' },
+];
+
+export const EXPORT_FORMATS: { id: AlbumExportFormat; label: string }[] = [
+    { id: 'jpeg', label: 'JPEG' },
+    { id: 'png', label: 'PNG' },
+    { id: 'pdf', label: 'PDF' },
+];
+
+export const DPI_OPTIONS = [72, 150, 300];
+
+export interface AlbumExportOptions {
+    format: AlbumExportFormat;
+    presetId: string;
+    dpi: number;
+    /** Transition used by the GIF and video exports. */
+    transition: AnimationTransition;
+    videoFormat: VideoFormat;
+}
+
+// A4 at 300 DPI matches the original album page size
+export const DEFAULT_EXPORT_OPTIONS: AlbumExportOptions = {
+    format: 'jpeg',
+    presetId: 'a4',
+    dpi: 300,
+    transition: 'develop',
+    videoFormat: 'webm',
+};
+
+const EXPORT_OPTIONS_STORAGE_KEY = 'past-forward:album-export';
+const POINTS_PER_INCH = 72;
+const JPEG_QUALITY = 0.9;
+
+export function getPrintPreset(id: string): PrintPreset {
+    return PRINT_PRESETS.find(preset => preset.id === id) ?? PRINT_PRESETS[0];
+}
+
+/**
+ * Converts a preset to output pixels.
+ */
+export function getPageSize(preset: PrintPreset, dpi: number): AlbumPageSize {
+    const toPixels = (value: number) => Math.round(preset.unit === 'in' ? value * dpi : value);
+    return { shortSide: toPixels(preset.width), longSide: toPixels(preset.height) };
+}
+
+/**
+ * Builds a multi-page PDF: a cover with the whole album, then one page per era.
+ */
+async function createAlbumPdf(photos: CaptionedPhoto[], albumOptions: AlbumRenderOptions, preset: PrintPreset, dpi: number): Promise<Blob> {
+    const { jsPDF } = await import('jspdf');
+    const pageSize = getPageSize(preset, dpi);
+    // Pixel presets have no physical size, so the DPI decides how large they print
+    const toPoints = (pixels: number) => (pixels / dpi) * POINTS_PER_INCH;
+
+    // Each page is added and released before the next is rendered; at print DPI a page
+    // canvas is tens of megabytes, too much to hold all of them at once on mobile
+    const renderPages: (() => Promise<HTMLCanvasElement>)[] = [
+        () => renderAlbumCanvas(photos, albumOptions, pageSize),
+        // Era pages always use a single centered polaroid, whatever the cover layout is
+        ...photos.map(photo => () => renderAlbumCanvas([photo], { ...albumOptions, layoutId: 'grid', subtitle: photo.caption }, pageSize)),
+    ];
+
+    let doc: InstanceType<typeof jsPDF> | null = null;
+    for (const renderPage of renderPages) {
+        const page = await renderPage();
+        const width = toPoints(page.width);
+        const height = toPoints(page.height);
+        const orientation = width > height ? 'landscape' : 'portrait';
+        if (!doc) {
+            doc = new jsPDF({ orientation, unit: 'pt', format: [width, height], compress: true });
+        } else {
+            doc.addPage([width, height], orientation);
+        }
+        doc.addImage(page.toDataURL('image/jpeg', JPEG_QUALITY), 'JPEG', 0, 0, width, height);
+        // Free the canvas's backing store right away instead of waiting for garbage collection
+        page.width = 0;
+        page.height = 0;
+    }
+
+    return doc!.output('blob');
+}
+
+/**
+ * Renders the album in the requested format and size.
+ * @param photos The photos, in album order.
+ * @param albumOptions The layout, theme, header text and layout seed.
+ * @param exportOptions The file format, print preset and DPI.
+ * @returns The file contents and a suggested file name.
+ */
+export async function exportAlbum(
+    photos: CaptionedPhoto[],
+    albumOptions: AlbumRenderOptions,
+    exportOptions: AlbumExportOptions,
+): Promise<{ blob: Blob; filename: string }> {
+    const preset = getPrintPreset(exportOptions.presetId);
+
+    if (exportOptions.format === 'pdf') {
+        return {
+            blob: await createAlbumPdf(photos, albumOptions, preset, exportOptions.dpi),
+            filename: 'past-forward-album.pdf',
+        };
+    }
+
+    const canvas = await renderAlbumCanvas(photos, albumOptions, getPageSize(preset, exportOptions.dpi));
+    return exportOptions.format === 'png'
+        ? { blob: await canvasToBlob(canvas, 'image/png'), filename: 'past-forward-album.png' }
+        : { blob: await canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITY), filename: 'past-forward-album.jpg' };
+}
+
+/**
+ * Loads the user's export options from local storage.
+ * @returns The stored options merged over the defaults.
+ */
+export function loadExportOptions(): AlbumExportOptions {
+    try {
+        const stored = localStorage.getItem(EXPORT_OPTIONS_STORAGE_KEY);
+        return stored ? { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(stored) } : DEFAULT_EXPORT_OPTIONS;
+    } catch (error) {
+        console.error("Failed to load export options:", error);
+        return DEFAULT_EXPORT_OPTIONS;
+    }
+}
+
+/**
+ * Saves the user's export options to local storage.
+ * @param options The options to persist.
+ */
+export function saveExportOptions(options: AlbumExportOptions): void {
+    localStorage.setItem(EXPORT_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+}
@@ -0,0 +1,365 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ARRANGEMENT_BOARD, ARRANGEMENT_CARD } from './cardArrangement';
+import type { CardPlacement } from '../types';
+
+export interface AlbumRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Where one photo goes on the page. Coordinates are the center of the frame,
+ * so rotation happens around the middle of the photo.
+ */
+export interface AlbumSlot {
+    centerX: number;
+    centerY: number;
+    width: number;
+    height: number;
+    /** Radians, clockwise. */
+    rotation: number;
+    /** Stacking order; when omitted, earlier photos sit on top of later ones. */
+    zIndex?: number;
+}
+
+export type AlbumFrameStyle = 'polaroid' | 'film';
+
+export interface AlbumTheme {
+    id: string;
+    label: string;
+    background: string;
+    pattern: 'none' | 'dots' | 'ruled' | 'grain';
+    patternColor: string;
+    titleColor: string;
+    subtitleColor: string;
+    /** Used for layout decorations such as the timeline line. */
+    accentColor: string;
+}
+
+export interface AlbumLayout {
+    id: string;
+    label: string;
+    orientation: 'portrait' | 'landscape';
+    frameStyle: AlbumFrameStyle;
+    /**
+     * Places `count` photos inside the content area.
+     * @param random Source of randomness for the hand-placed look.
+     * @param placements Where the user arranged each card on the desktop board, in photo order.
+     */
+    arrange: (count: number, area: AlbumRect, random: () => number, placements?: CardPlacement[]) => AlbumSlot[];
+    /** Draws anything that sits behind the photos, e.g. a film strip or a timeline. */
+    drawBackdrop?: (ctx: CanvasRenderingContext2D, slots: AlbumSlot[], area: AlbumRect, theme: AlbumTheme) => void;
+}
+
+// A polaroid frame is 1.2 times taller than it is wide
+export const POLAROID_ASPECT = 1.2;
+// Film frames are a little wider than tall, like a 35mm negative turned on its side
+const FILM_FRAME_ASPECT = 0.8;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const jitter = (random: () => number, amount: number) => (random() - 0.5) * amount;
+
+/**
+ * Fits a frame of the given height/width aspect inside a cell, leaving a margin.
+ */
+function fitFrame(cellWidth: number, cellHeight: number, aspect: number, fill = 0.9): { width: number; height: number } {
+    let width = cellWidth * fill;
+    let height = width * aspect;
+    if (height > cellHeight * fill) {
+        height = cellHeight * fill;
+        width = height / aspect;
+    }
+    return { width, height };
+}
+
+/**
+ * Picks the column count that makes the frames as large as possible.
+ */
+function bestColumnCount(count: number, area: AlbumRect, aspect: number): number {
+    let best = 1;
+    let bestWidth = 0;
+    for (let cols = 1; cols <= count; cols++) {
+        const rows = Math.ceil(count / cols);
+        const { width } = fitFrame(area.width / cols, area.height / rows, aspect);
+        if (width > bestWidth) {
+            best = cols;
+            bestWidth = width;
+        }
+    }
+    return best;
+}
+
+/**
+ * Lays frames out row by row, centering an incomplete last row.
+ */
+function arrangeGrid(count: number, area: AlbumRect, cols: number, options: { aspect: number; fill: number; spread: number; maxRotation: number; random: () => number }): AlbumSlot[] {
+    const rows = Math.ceil(count / cols);
+    const cellWidth = area.width / cols;
+    const cellHeight = area.height / rows;
+    const frame = fitFrame(cellWidth, cellHeight, options.aspect, options.fill);
+
+    return Array.from({ length: count }, (_, index) => {
+        const row = Math.floor(index / cols);
+        const itemsInRow = row === rows - 1 ? count - row * cols : cols;
+        const rowOffset = (cols - itemsInRow) * cellWidth / 2;
+        const col = index % cols;
+        const centerX = area.x + rowOffset + cellWidth * (col + 0.5) + jitter(options.random, cellWidth * options.spread);
+        const centerY = area.y + cellHeight * (row + 0.5) + jitter(options.random, cellHeight * options.spread);
+        return {
+            // Scattered frames may overlap each other but never leave the page
+            centerX: clamp(centerX, area.x + frame.width / 2, area.x + area.width - frame.width / 2),
+            centerY: clamp(centerY, area.y + frame.height / 2, area.y + area.height - frame.height / 2),
+            width: frame.width,
+            height: frame.height,
+            rotation: jitter(options.random, options.maxRotation * 2),
+        };
+    });
+}
+
+const createGridLayout = (id: string, label: string, columns?: number): AlbumLayout => ({
+    id,
+    label,
+    orientation: 'portrait',
+    frameStyle: 'polaroid',
+    arrange: (count, area, random) => arrangeGrid(
+        count,
+        area,
+        Math.min(count, columns ?? bestColumnCount(count, area, POLAROID_ASPECT)),
+        { aspect: POLAROID_ASPECT, fill: 0.9, spread: 0, maxRotation: 0.05, random },
+    ),
+});
+
+const scrapbookLayout: AlbumLayout = {
+    id: 'scrapbook',
+    label: 'Scrapbook',
+    orientation: 'portrait',
+    frameStyle: 'polaroid',
+    // Larger, overlapping frames scattered around their cells
+    arrange: (count, area, random) => arrangeGrid(
+        count,
+        area,
+        bestColumnCount(count, area, POLAROID_ASPECT),
+        { aspect: POLAROID_ASPECT, fill: Math.min(1.1, 0.95 + count * 0.025), spread: 0.2, maxRotation: 0.2, random },
+    ),
+};
+
+const FILM_FRAMES_PER_STRIP = 6;
+const FILM_STRIP_FILL = 0.7;
+
+const filmstripLayout: AlbumLayout = {
+    id: 'filmstrip',
+    label: 'Filmstrip',
+    orientation: 'portrait',
+    frameStyle: 'film',
+    arrange: (count, area) => {
+        const strips = Math.ceil(count / FILM_FRAMES_PER_STRIP);
+        const framesPerStrip = Math.ceil(count / strips);
+        const columnWidth = area.width / strips;
+        const slotHeight = area.height / framesPerStrip;
+        // Frames take up 70% of the strip's width; the rest is the sprocket margin
+        const width = Math.min((slotHeight * 0.9) / FILM_FRAME_ASPECT, columnWidth * 0.9 * FILM_STRIP_FILL);
+
+        return Array.from({ length: count }, (_, index) => ({
+            centerX: area.x + columnWidth * (Math.floor(index / framesPerStrip) + 0.5),
+            centerY: area.y + slotHeight * ((index % framesPerStrip) + 0.5),
+            width,
+            height: width * FILM_FRAME_ASPECT,
+            rotation: 0,
+        }));
+    },
+    drawBackdrop: (ctx, slots, area) => {
+        // One dark strip per column of frames, with sprocket holes down both edges
+        const columns = [...new Set(slots.map(slot => slot.centerX))];
+        const frameWidth = slots[0]?.width ?? 0;
+        const stripWidth = frameWidth / FILM_STRIP_FILL;
+        const holeSize = (stripWidth - frameWidth) / 6;
+        columns.forEach(centerX => {
+            const left = centerX - stripWidth / 2;
+            ctx.fillStyle = '#1a1a1a';
+            ctx.fillRect(left, area.y, stripWidth, area.height);
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+            for (let y = area.y + holeSize; y < area.y + area.height - holeSize; y += holeSize * 2.5) {
+                ctx.fillRect(left + holeSize, y, holeSize, holeSize * 1.4);
+                ctx.fillRect(left + stripWidth - holeSize * 2, y, holeSize, holeSize * 1.4);
+            }
+        });
+    },
+};
+
+const heroLayout: AlbumLayout = {
+    id: 'hero',
+    label: 'Hero + thumbnails',
+    orientation: 'portrait',
+    frameStyle: 'polaroid',
+    arrange: (count, area, random) => {
+        if (count <= 1) {
+            return arrangeGrid(count, area, 1, { aspect: POLAROID_ASPECT, fill: 0.92, spread: 0, maxRotation: 0.04, random });
+        }
+        const heroArea = { ...area, height: area.height * 0.58 };
+        const thumbArea = { ...area, y: area.y + heroArea.height, height: area.height - heroArea.height };
+        const hero = fitFrame(heroArea.width, heroArea.height, POLAROID_ASPECT, 0.92);
+        const thumbnails = arrangeGrid(
+            count - 1,
+            thumbArea,
+            bestColumnCount(count - 1, thumbArea, POLAROID_ASPECT),
+            { aspect: POLAROID_ASPECT, fill: 0.88, spread: 0, maxRotation: 0.06, random },
+        );
+        return [
+            {
+                centerX: area.x + area.width / 2,
+                centerY: heroArea.y + heroArea.height / 2,
+                width: hero.width,
+                height: hero.height,
+                rotation: jitter(random, 0.04),
+            },
+            ...thumbnails,
+        ];
+    },
+};
+
+const timelineLayout: AlbumLayout = {
+    id: 'timeline',
+    label: 'Timeline',
+    orientation: 'landscape',
+    frameStyle: 'polaroid',
+    // Frames alternate above and below a line running across the page
+    arrange: (count, area, random) => {
+        const halfHeight = area.height / 2;
+        // Neighbors sit on opposite sides of the line, so frames may be wider than the spacing
+        const width = Math.min(
+            count > 1 ? (area.width * 2 * 0.9) / (count + 1) : area.width,
+            (halfHeight * 0.85) / POLAROID_ASPECT,
+        );
+        const height = width * POLAROID_ASPECT;
+        const spacing = count > 1 ? (area.width - width) / (count - 1) : 0;
+        return Array.from({ length: count }, (_, index) => {
+            const above = index % 2 === 0;
+            return {
+                centerX: count > 1 ? area.x + width / 2 + spacing * index : area.x + area.width / 2,
+                centerY: area.y + halfHeight + (above ? -1 : 1) * (halfHeight - height / 2 - halfHeight * 0.05),
+                width,
+                height,
+                rotation: jitter(random, 0.08),
+            };
+        });
+    },
+    drawBackdrop: (ctx, slots, area, theme) => {
+        const lineY = area.y + area.height / 2;
+        ctx.strokeStyle = theme.accentColor;
+        ctx.fillStyle = theme.accentColor;
+        ctx.lineWidth = 8;
+        ctx.beginPath();
+        ctx.moveTo(area.x, lineY);
+        ctx.lineTo(area.x + area.width, lineY);
+        ctx.stroke();
+        ctx.lineWidth = 4;
+        slots.forEach(slot => {
+            const edgeY = slot.centerY < lineY ? slot.centerY + slot.height / 2 : slot.centerY - slot.height / 2;
+            ctx.beginPath();
+            ctx.moveTo(slot.centerX, lineY);
+            ctx.lineTo(slot.centerX, edgeY);
+            ctx.stroke();
+            ctx.beginPath();
+            ctx.arc(slot.centerX, lineY, 18, 0, Math.PI * 2);
+            ctx.fill();
+        });
+    },
+};
+
+const arrangementLayout: AlbumLayout = {
+    id: 'arrangement',
+    label: 'My arrangement',
+    orientation: 'landscape',
+    frameStyle: 'polaroid',
+    // Reproduces the desktop board, scaled to fit the page
+    arrange: (count, area, random, placements) => {
+        if (!placements || placements.length < count) {
+            return createGridLayout('grid', 'Grid').arrange(count, area, random);
+        }
+        const scale = Math.min(area.width / ARRANGEMENT_BOARD.width, area.height / ARRANGEMENT_BOARD.height);
+        const boardWidth = ARRANGEMENT_BOARD.width * scale;
+        const boardHeight = ARRANGEMENT_BOARD.height * scale;
+        const left = area.x + (area.width - boardWidth) / 2;
+        const top = area.y + (area.height - boardHeight) / 2;
+        const width = ARRANGEMENT_CARD.width * scale;
+        return placements.slice(0, count).map(placement => ({
+            centerX: left + placement.x * boardWidth,
+            centerY: top + placement.y * boardHeight,
+            width,
+            height: width * POLAROID_ASPECT,
+            rotation: (placement.rotation * Math.PI) / 180,
+            zIndex: placement.zIndex,
+        }));
+    },
+};
+
+export const ALBUM_LAYOUTS: AlbumLayout[] = [
+    createGridLayout('grid', 'Grid'),
+    createGridLayout('grid-2', '2 columns', 2),
+    createGridLayout('grid-3', '3 columns', 3),
+    scrapbookLayout,
+    filmstripLayout,
+    heroLayout,
+    timelineLayout,
+    arrangementLayout,
+];
+
+export const ALBUM_THEMES: AlbumTheme[] = [
+    { id: 'parchment', label: 'Parchment', background: '#fdf5e6', pattern: 'none', patternColor: 'transparent', titleColor: '#333', subtitleColor: '#555', accentColor: '#8b6f47' },
+    { id: 'kraft', label: 'Kraft paper', background: '#c9a67a', pattern: 'grain', patternColor: 'rgba(80, 50, 20, 0.08)', titleColor: '#3b2a17', subtitleColor: '#5a4128', accentColor: '#3b2a17' },
+    { id: 'linen', label: 'Notebook', background: '#f8f7f2', pattern: 'ruled', patternColor: 'rgba(70, 120, 200, 0.25)', titleColor: '#1f2a44', subtitleColor: '#4a5568', accentColor: '#c0392b' },
+    { id: 'midnight', label: 'Midnight', background: '#1c1c22', pattern: 'dots', patternColor: 'rgba(255, 255, 255, 0.06)', titleColor: '#f5f5f5', subtitleColor: '#a3a3a3', accentColor: '#facc15' },
+    { id: 'blush', label: 'Blush', background: '#f6dfe0', pattern: 'dots', patternColor: 'rgba(160, 60, 80, 0.12)', titleColor: '#5b2333', subtitleColor: '#8a4a5a', accentColor: '#b5485d' },
+];
+
+export interface AlbumOptions {
+    layoutId: string;
+    themeId: string;
+    title: string;
+    subtitle: string;
+}
+
+export const DEFAULT_ALBUM_OPTIONS: AlbumOptions = {
+    layoutId: 'grid',
+    themeId: 'parchment',
+    title: 'Generated with Past Forward',
+    subtitle: 'on Google AI Studio',
+};
+
+const ALBUM_OPTIONS_STORAGE_KEY = 'past-forward:album-options';
+
+export function getAlbumLayout(id: string): AlbumLayout {
+    return ALBUM_LAYOUTS.find(layout => layout.id === id) ?? ALBUM_LAYOUTS[0];
+}
+
+export function getAlbumTheme(id: string): AlbumTheme {
+    return ALBUM_THEMES.find(theme => theme.id === id) ?? ALBUM_THEMES[0];
+}
+
+/**
+ * Loads the user's album options from local storage.
+ * @returns The stored options merged over the defaults.
+ */
+export function loadAlbumOptions(): AlbumOptions {
+    try {
+        const stored = localStorage.getItem(ALBUM_OPTIONS_STORAGE_KEY);
+        return stored ? { ...DEFAULT_ALBUM_OPTIONS, ...JSON.parse(stored) } : DEFAULT_ALBUM_OPTIONS;
+    } catch (error) {
+        console.error("Failed to load album options:", error);
+        return DEFAULT_ALBUM_OPTIONS;
+    }
+}
+
+/**
+ * Saves the user's album options to local storage.
+ * @param options The options to persist.
+ */
+export function saveAlbumOptions(options: AlbumOptions): void {
+    localStorage.setItem(ALBUM_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+}
@@ -2,154 +2,376 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-// Helper function to load an image and return it as an HTMLImageElement
-function loadImage(src: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        // Setting crossOrigin is good practice for canvas operations, even with data URLs
-        img.crossOrigin = 'anonymous';
-        img.onload = () => resolve(img);
-        img.onerror = (err) => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
-        img.src = src;
-    });
+import { loadImage } from './imageUtils';
+import { createSeededRandom } from './random';
+import { DEFAULT_ALBUM_OPTIONS, POLAROID_ASPECT, getAlbumLayout, getAlbumTheme } from './albumLayouts';
+import type { AlbumOptions, AlbumRect, AlbumSlot, AlbumTheme } from './albumLayouts';
+import { DATE_STAMP_COLOR, DATE_STAMP_FONT, DEFAULT_CAPTION_STYLE, getHandwritingFont, loadCaptionFonts } from './captions';
+import type { CaptionStyle, CaptionedPhoto, HandwritingFont } from './captions';
+
+const PAGE_LONG_SIDE = 3508;
+const PAGE_SHORT_SIDE = 2480;
+const PAGE_MARGIN = 100;
+const HEADER_HEIGHT = 300;
+
+/**
+ * Fills the page with the theme's color and texture.
+ */
+function drawBackground(ctx: CanvasRenderingContext2D, width: number, height: number, theme: AlbumTheme) {
+    ctx.fillStyle = theme.background;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = theme.patternColor;
+    ctx.strokeStyle = theme.patternColor;
+    switch (theme.pattern) {
+        case 'dots':
+            for (let y = 40; y < height; y += 80) {
+                for (let x = 40; x < width; x += 80) {
+                    ctx.beginPath();
+                    ctx.arc(x, y, 6, 0, Math.PI * 2);
+                    ctx.fill();
+                }
+            }
+            break;
+        case 'ruled':
+            ctx.lineWidth = 3;
+            for (let y = 120; y < height; y += 90) {
+                ctx.beginPath();
+                ctx.moveTo(0, y);
+                ctx.lineTo(width, y);
+                ctx.stroke();
+            }
+            break;
+        case 'grain':
+            // Fine fibers, deterministic so re-exports look the same
+            for (let i = 0; i < 6000; i++) {
+                const x = (i * 7919) % width;
+                const y = (i * 104729) % height;
+                ctx.fillRect(x, y, 2 + (i % 5), 2);
+            }
+            break;
+    }
 }
 
 /**
- * Creates a single "photo album" page image from a collection of decade images.
- * @param imageData A record mapping decade strings to their image data URLs.
- * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
+ * Draws the title and subtitle.
  */
-export async function createAlbumPage(imageData: Record<string, string>): Promise<string> {
-    const canvas = document.createElement('canvas');
-    // High-resolution canvas for good quality (A4-like ratio)
-    const canvasWidth = 2480;
-    const canvasHeight = 3508;
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-        throw new Error('Could not get 2D canvas context');
+function drawHeader(ctx: CanvasRenderingContext2D, width: number, theme: AlbumTheme, title: string, subtitle: string) {
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+
+    if (title) {
+        ctx.fillStyle = theme.titleColor;
+        ctx.font = `bold 100px 'Caveat', cursive`;
+        ctx.fillText(title, width / 2, 150, width - PAGE_MARGIN * 2);
+    }
+
+    if (subtitle) {
+        ctx.fillStyle = theme.subtitleColor;
+        ctx.font = `50px 'Roboto', sans-serif`;
+        ctx.fillText(subtitle, width / 2, title ? 220 : 150, width - PAGE_MARGIN * 2);
+    }
+}
+
+/**
+ * Draws an image scaled to fit inside a box, centered.
+ */
+function drawImageContained(ctx: CanvasRenderingContext2D, img: HTMLImageElement, centerX: number, top: number, boxWidth: number, boxHeight: number) {
+    // Calculate image dimensions to fit while maintaining aspect ratio
+    const aspectRatio = img.naturalWidth / img.naturalHeight;
+    let drawWidth = boxWidth;
+    let drawHeight = drawWidth / aspectRatio;
+
+    if (drawHeight > boxHeight) {
+        drawHeight = boxHeight;
+        drawWidth = drawHeight * aspectRatio;
+    }
+
+    ctx.drawImage(img, centerX - drawWidth / 2, top + (boxHeight - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+export interface PolaroidShadow {
+    /** Blur radius as a fraction of the polaroid's width. */
+    blur: number;
+    offsetX: number;
+    offsetY: number;
+}
+
+const DEFAULT_SHADOW: PolaroidShadow = { blur: 0.05, offsetX: 5, offsetY: 10 };
+
+// The PolaroidCard's undeveloped look: a dark chemical layer over a sepia, flat photo
+export const UNDEVELOPED_OVERLAY = '#3a322c';
+
+/**
+ * Prints a glowing camera date stamp with its bottom-right corner at (right, bottom).
+ * @param size The font size.
+ */
+function drawDateStamp(ctx: CanvasRenderingContext2D, dateStamp: string, right: number, bottom: number, size: number) {
+    ctx.save();
+    ctx.font = `${Math.round(size)}px ${DATE_STAMP_FONT}`;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'bottom';
+    ctx.fillStyle = DATE_STAMP_COLOR;
+    ctx.shadowColor = DATE_STAMP_COLOR;
+    ctx.shadowBlur = size * 0.3;
+    ctx.fillText(dateStamp, right, bottom);
+    ctx.restore();
+}
+
+export interface PolaroidDrawOptions {
+    /** How far the photo has developed, from 0 (dark) to 1 (finished). */
+    develop?: number;
+    /** The drop shadow under the frame. */
+    shadow?: PolaroidShadow;
+    /** The caption's handwriting. */
+    font?: HandwritingFont;
+    /** Printed in the photo's bottom-right corner when set. */
+    dateStamp?: string;
+}
+
+/**
+ * Draws a polaroid with its handwritten caption, centered at the context origin.
+ */
+export function drawPolaroid(
+    ctx: CanvasRenderingContext2D,
+    img: HTMLImageElement,
+    caption: string,
+    width: number,
+    height: number,
+    { develop = 1, shadow = DEFAULT_SHADOW, font = getHandwritingFont(DEFAULT_CAPTION_STYLE.fontId), dateStamp }: PolaroidDrawOptions = {},
+) {
+    // Draw a soft shadow
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+    ctx.shadowBlur = width * shadow.blur;
+    ctx.shadowOffsetX = shadow.offsetX;
+    ctx.shadowOffsetY = shadow.offsetY;
+
+    // Draw the white polaroid frame (centered at the origin)
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(-width / 2, -height / 2, width, height);
+
+    // Remove shadow for subsequent drawing
+    ctx.shadowColor = 'transparent';
+
+    const imageContainerWidth = width * 0.9;
+    const imageContainerHeight = imageContainerWidth; // Classic square-ish photo area
+    const imageContainerY = -height / 2 + (width - imageContainerWidth) / 2;
+
+    if (develop < 1) {
+        // Mirrors the card's CSS transition: the overlay clears slightly ahead of the color
+        const overlayOpacity = Math.max(0, 1 - develop * 1.15);
+        ctx.save();
+        ctx.filter = `sepia(${1 - develop}) contrast(${0.8 + 0.2 * develop}) brightness(${0.8 + 0.2 * develop})`;
+        drawImageContained(ctx, img, 0, imageContainerY, imageContainerWidth, imageContainerHeight);
+        ctx.filter = 'none';
+        ctx.globalAlpha = overlayOpacity;
+        ctx.fillStyle = UNDEVELOPED_OVERLAY;
+        ctx.fillRect(-imageContainerWidth / 2, imageContainerY, imageContainerWidth, imageContainerHeight);
+        ctx.restore();
+    } else {
+        drawImageContained(ctx, img, 0, imageContainerY, imageContainerWidth, imageContainerHeight);
     }
 
-    // 1. Draw the album page background
-    ctx.fillStyle = '#fdf5e6'; // A warm, parchment-like color
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    if (dateStamp && develop >= 1) {
+        const inset = imageContainerWidth * 0.04;
+        drawDateStamp(ctx, dateStamp, imageContainerWidth / 2 - inset, imageContainerY + imageContainerHeight - inset, imageContainerWidth * 0.07);
+    }
 
-    // 2. Draw the title
-    ctx.fillStyle = '#333';
+    // Draw the handwritten caption
+    ctx.fillStyle = '#222';
+    ctx.font = `${Math.round(width * 0.085 * font.scale)}px ${font.family}`;
     ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
 
-    ctx.font = `bold 100px 'Caveat', cursive`;
-    ctx.fillText('Generated with Past Forward', canvasWidth / 2, 150);
+    const captionAreaTop = imageContainerY + imageContainerHeight;
+    const captionAreaBottom = height / 2;
+    ctx.fillText(caption, 0, captionAreaTop + (captionAreaBottom - captionAreaTop) / 2, width * 0.9);
+}
 
-    ctx.font = `50px 'Roboto', sans-serif`;
-    ctx.fillStyle = '#555';
-    ctx.fillText('on Google AI Studio', canvasWidth / 2, 220);
+/**
+ * Draws a film frame, centered at the context origin, with the caption printed
+ * along its edge like a frame number.
+ */
+function drawFilmFrame(ctx: CanvasRenderingContext2D, img: HTMLImageElement, caption: string, width: number, height: number, dateStamp?: string) {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(-width / 2, -height / 2, width, height);
 
-    // 3. Load all the polaroid images concurrently
-    const decades = Object.keys(imageData);
-    const loadedImages = await Promise.all(
-        Object.values(imageData).map(url => loadImage(url))
+    // Film frames are filled edge to edge
+    const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+    const sourceWidth = width / scale;
+    const sourceHeight = height / scale;
+    ctx.drawImage(
+        img,
+        (img.naturalWidth - sourceWidth) / 2,
+        (img.naturalHeight - sourceHeight) / 2,
+        sourceWidth,
+        sourceHeight,
+        -width / 2,
+        -height / 2,
+        width,
+        height,
     );
 
-    const imagesWithDecades = decades.map((decade, index) => ({
-        decade,
-        img: loadedImages[index],
-    }));
+    ctx.fillStyle = '#f5b942';
+    ctx.font = `${Math.round(height * 0.07)}px 'Roboto', sans-serif`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText(caption.toUpperCase(), -width / 2, height / 2 + height * 0.02, width);
+
+    if (dateStamp) {
+        drawDateStamp(ctx, dateStamp, width / 2 - width * 0.04, height / 2 - width * 0.04, width * 0.07);
+    }
+}
+
+export interface AlbumPageSize {
+    /** Pixels along the short side of the page. */
+    shortSide: number;
+    /** Pixels along the long side of the page. */
+    longSide: number;
+}
 
-    // 4. Define grid layout and draw each polaroid
-    const grid = { cols: 2, rows: 3, padding: 100 };
-    const contentTopMargin = 300; // Space for the header
-    const contentHeight = canvasHeight - contentTopMargin;
-    const cellWidth = (canvasWidth - grid.padding * (grid.cols + 1)) / grid.cols;
-    const cellHeight = (contentHeight - grid.padding * (grid.rows + 1)) / grid.rows;
+export interface AlbumRenderOptions extends AlbumOptions {
+    /** Seeds rotations, offsets and shadows; the same seed always renders the same page. */
+    seed: number;
+    /** The caption handwriting and whether date stamps are printed. */
+    captionStyle?: CaptionStyle;
+}
 
-    // Calculate polaroid dimensions to fit inside the grid cell with a margin
-    const polaroidAspectRatio = 1.2; // height is 1.2 times width
-    const maxPolaroidWidth = cellWidth * 0.9;
-    const maxPolaroidHeight = cellHeight * 0.9;
+const DEFAULT_LAYOUT_SEED = 0;
 
-    let polaroidWidth = maxPolaroidWidth;
-    let polaroidHeight = polaroidWidth * polaroidAspectRatio;
+// High-resolution page (A4 at 300 DPI)
+export const DEFAULT_PAGE_SIZE: AlbumPageSize = { shortSide: PAGE_SHORT_SIDE, longSide: PAGE_LONG_SIDE };
 
-    if (polaroidHeight > maxPolaroidHeight) {
-        polaroidHeight = maxPolaroidHeight;
-        polaroidWidth = polaroidHeight / polaroidAspectRatio;
+/**
+ * Renders a "photo album" page onto a canvas.
+ * @param photos The photos to place, in album order.
+ * @param options The layout, theme, header text and seed; anything omitted uses the defaults.
+ * @param pageSize The output size; the layout decides whether the page is portrait or landscape.
+ * @returns A promise that resolves to the rendered canvas.
+ */
+export async function renderAlbumCanvas(
+    photos: CaptionedPhoto[],
+    options: Partial<AlbumRenderOptions> = {},
+    pageSize: AlbumPageSize = DEFAULT_PAGE_SIZE,
+): Promise<HTMLCanvasElement> {
+    const { layoutId, themeId, title, subtitle, seed = DEFAULT_LAYOUT_SEED, captionStyle = DEFAULT_CAPTION_STYLE } = { ...DEFAULT_ALBUM_OPTIONS, ...options };
+    const font = getHandwritingFont(captionStyle.fontId);
+    const getDateStamp = (index: number) => captionStyle.showDateStamp ? photos[index].dateStamp : undefined;
+    const layout = getAlbumLayout(layoutId);
+    const theme = getAlbumTheme(themeId);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(layout.orientation === 'portrait' ? pageSize.shortSide : pageSize.longSide);
+    canvas.height = Math.round(layout.orientation === 'portrait' ? pageSize.longSide : pageSize.shortSide);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
     }
 
-    const imageContainerWidth = polaroidWidth * 0.9;
-    const imageContainerHeight = imageContainerWidth; // Classic square-ish photo area
+    // Lay the page out in units where the short side is always PAGE_SHORT_SIDE,
+    // so margins and font sizes keep their proportions at any output size
+    const scale = pageSize.shortSide / PAGE_SHORT_SIDE;
+    ctx.scale(scale, scale);
+    const canvasWidth = canvas.width / scale;
+    const canvasHeight = canvas.height / scale;
 
-    // Reverse the drawing order: draw bottom rows first so top rows are rendered on top
-    const reversedImages = [...imagesWithDecades].reverse();
-    reversedImages.forEach(({ decade, img }, reversedIndex) => {
-        // Calculate the original index to determine grid position
-        const index = imagesWithDecades.length - 1 - reversedIndex;
+    // 1. Draw the album page background and header
+    drawBackground(ctx, canvasWidth, canvasHeight, theme);
+    drawHeader(ctx, canvasWidth, theme, title.trim(), subtitle.trim());
 
-        const row = Math.floor(index / grid.cols);
-        const col = index % grid.cols;
+    // 2. Load all the polaroid images and the caption fonts concurrently
+    const [loadedImages] = await Promise.all([
+        Promise.all(photos.map(photo => loadImage(photo.url))),
+        loadCaptionFonts(captionStyle),
+    ]);
 
-        // Calculate top-left corner of the polaroid within its grid cell
-        const x = grid.padding * (col + 1) + cellWidth * col + (cellWidth - polaroidWidth) / 2;
-        const y = contentTopMargin + grid.padding * (row + 1) + cellHeight * row + (cellHeight - polaroidHeight) / 2;
-        
+    // 3. Let the layout place each photo in the space below the header
+    const contentTop = title.trim() || subtitle.trim() ? HEADER_HEIGHT : 0;
+    const area: AlbumRect = {
+        x: PAGE_MARGIN,
+        y: contentTop + PAGE_MARGIN,
+        width: canvasWidth - PAGE_MARGIN * 2,
+        height: canvasHeight - contentTop - PAGE_MARGIN * 2,
+    };
+    const random = createSeededRandom(seed);
+    // The arrangement layout only follows the board when every photo has a spot on it
+    const placements = photos.every(photo => photo.placement) ? photos.map(photo => photo.placement!) : undefined;
+    const slots: AlbumSlot[] = layout.arrange(photos.length, area, random, placements);
+    // Vary each shadow a little, as if the photos sat at slightly different heights
+    const shadows: PolaroidShadow[] = slots.map(() => ({
+        blur: 0.04 + random() * 0.03,
+        offsetX: (random() - 0.5) * 12,
+        offsetY: 6 + random() * 8,
+    }));
+    layout.drawBackdrop?.(ctx, slots, area, theme);
+
+    // Draw lower photos first; without a z-index, earlier photos are rendered on top
+    const drawOrder = slots
+        .map((slot, index) => ({ index, zIndex: slot.zIndex ?? -index }))
+        .sort((a, b) => a.zIndex - b.zIndex)
+        .map(({ index }) => index);
+    for (const index of drawOrder) {
+        const slot = slots[index];
         ctx.save();
-        
-        // Translate context to the center of the polaroid for rotation
-        ctx.translate(x + polaroidWidth / 2, y + polaroidHeight / 2);
-        
-        // Apply a slight, random rotation for a hand-placed look
-        const rotation = (Math.random() - 0.5) * 0.1; // Radians (approx. +/- 2.8 degrees)
-        ctx.rotate(rotation);
-        
-        // Draw a soft shadow
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
-        ctx.shadowBlur = 35;
-        ctx.shadowOffsetX = 5;
-        ctx.shadowOffsetY = 10;
-        
-        // Draw the white polaroid frame (centered at the new origin)
-        ctx.fillStyle = '#fff';
-        ctx.fillRect(-polaroidWidth / 2, -polaroidHeight / 2, polaroidWidth, polaroidHeight);
-        
-        // Remove shadow for subsequent drawing
-        ctx.shadowColor = 'transparent';
-        
-        // Calculate image dimensions to fit while maintaining aspect ratio
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        let drawWidth = imageContainerWidth;
-        let drawHeight = drawWidth / aspectRatio;
-
-        if (drawHeight > imageContainerHeight) {
-            drawHeight = imageContainerHeight;
-            drawWidth = drawHeight * aspectRatio;
+
+        // Translate context to the center of the frame for rotation
+        ctx.translate(slot.centerX, slot.centerY);
+        ctx.rotate(slot.rotation);
+
+        if (layout.frameStyle === 'film') {
+            drawFilmFrame(ctx, loadedImages[index], photos[index].caption, slot.width, slot.height, getDateStamp(index));
+        } else {
+            drawPolaroid(ctx, loadedImages[index], photos[index].caption, slot.width, slot.height, { shadow: shadows[index], font, dateStamp: getDateStamp(index) });
         }
 
-        // Calculate position to center the image within its container area
-        const imageAreaTopMargin = (polaroidWidth - imageContainerWidth) / 2;
-        const imageContainerY = -polaroidHeight / 2 + imageAreaTopMargin;
-        
-        const imgX = -drawWidth / 2; // Horizontally centered due to context translation
-        const imgY = imageContainerY + (imageContainerHeight - drawHeight) / 2;
-        
-        ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
-        
-        // Draw the handwritten caption
-        ctx.fillStyle = '#222';
-        ctx.font = `60px 'Permanent Marker', cursive`;
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-
-        const captionAreaTop = imageContainerY + imageContainerHeight;
-        const captionAreaBottom = polaroidHeight / 2;
-        const captionY = captionAreaTop + (captionAreaBottom - captionAreaTop) / 2;
-
-        ctx.fillText(decade, 0, captionY);
-        
         ctx.restore(); // Restore context to pre-transformation state
-    });
+    }
 
+    return canvas;
+}
+
+/**
+ * Creates a single "photo album" page image from a collection of decade images.
+ * @param photos The photos to place, in album order.
+ * @param options The layout, theme, header text and seed; anything omitted uses the defaults.
+ * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
+ */
+export async function createAlbumPage(photos: CaptionedPhoto[], options: Partial<AlbumRenderOptions> = {}): Promise<string> {
+    const canvas = await renderAlbumCanvas(photos, options);
     // Convert canvas to a high-quality JPEG and return the data URL
     return canvas.toDataURL('image/jpeg', 0.9);
-}
\ No newline at end of file
+}
+
+/**
+ * Renders a single captioned polaroid, for downloading one photo on its own.
+ * @param imageUrl The photo.
+ * @param caption The handwritten caption.
+ * @param captionStyle The handwriting and whether to print `dateStamp`.
+ * @param dateStamp The photo's date stamp.
+ * @returns A promise that resolves to a JPEG data URL.
+ */
+export async function createPolaroidImage(imageUrl: string, caption: string, captionStyle: CaptionStyle, dateStamp?: string): Promise<string> {
+    const [img] = await Promise.all([loadImage(imageUrl), loadCaptionFonts(captionStyle)]);
+    const width = 1200;
+    const height = width * POLAROID_ASPECT;
+    // Leave room around the frame for its shadow
+    const margin = width * 0.06;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width + margin * 2);
+    canvas.height = Math.round(height + margin * 2);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    ctx.fillStyle = '#f4f1ea';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    drawPolaroid(ctx, img, caption, width, height, {
+        font: getHandwritingFont(captionStyle.fontId),
+        dateStamp: captionStyle.showDateStamp ? dateStamp : undefined,
+    });
+    return canvas.toDataURL('image/jpeg', 0.92);
+}
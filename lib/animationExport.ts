@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import { loadImage } from './imageUtils';
+import { drawPolaroid } from './albumUtils';
+import { DEFAULT_CAPTION_STYLE, getHandwritingFont, loadCaptionFonts } from './captions';
+import type { CaptionStyle, CaptionedPhoto, HandwritingFont } from './captions';
+import { POLAROID_ASPECT } from './albumLayouts';
+import { sleep } from './abort';
+
+export type AnimationTransition = 'crossfade' | 'develop';
+export type VideoFormat = 'webm' | 'mp4';
+
+export const ANIMATION_TRANSITIONS: { id: AnimationTransition; label: string }[] = [
+    { id: 'develop', label: 'Develop' },
+    { id: 'crossfade', label: 'Crossfade' },
+];
+
+export interface AnimationOptions {
+    transition: AnimationTransition;
+    /** How long each finished photo stays on screen. */
+    holdMs: number;
+    /** How long the transition into each photo takes. */
+    transitionMs: number;
+    /** Output width in pixels; the height follows from the polaroid's shape. */
+    width: number;
+    /** The caption handwriting and whether date stamps are printed. */
+    captionStyle: CaptionStyle;
+}
+
+export const DEFAULT_ANIMATION_OPTIONS: AnimationOptions = {
+    transition: 'develop',
+    holdMs: 1500,
+    transitionMs: 1200,
+    width: 480,
+    captionStyle: DEFAULT_CAPTION_STYLE,
+};
+
+const BACKGROUND_COLOR = '#000';
+const GIF_FPS = 12;
+const VIDEO_FPS = 30;
+const VIDEO_BITS_PER_SECOND = 4_000_000;
+
+// Preferred container/codec combinations, best first
+const VIDEO_MIME_TYPES: Record<VideoFormat, string[]> = {
+    mp4: ['video/mp4;codecs=avc1', 'video/mp4'],
+    webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+};
+
+interface AnimationFrame {
+    caption: string;
+    img: HTMLImageElement;
+    font: HandwritingFont;
+    dateStamp?: string;
+}
+
+interface Segment {
+    /** Index of the photo being transitioned from, if any. */
+    from: number | null;
+    to: number;
+    durationMs: number;
+    isTransition: boolean;
+}
+
+/**
+ * Lays out the animation: a transition into each photo followed by a hold.
+ * The develop transition also develops the first photo; crossfade starts on it.
+ */
+function buildTimeline(count: number, options: AnimationOptions): Segment[] {
+    const segments: Segment[] = [];
+    for (let index = 0; index < count; index++) {
+        if (index > 0 || options.transition === 'develop') {
+            segments.push({ from: index > 0 ? index - 1 : null, to: index, durationMs: options.transitionMs, isTransition: true });
+        }
+        segments.push({ from: null, to: index, durationMs: options.holdMs, isTransition: false });
+    }
+    return segments;
+}
+
+// Ease in and out so transitions don't start or stop abruptly
+const easeInOut = (t: number) => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+
+function getCanvasSize(options: AnimationOptions): { width: number; height: number } {
+    // Video encoders need even dimensions
+    const even = (value: number) => Math.round(value / 2) * 2;
+    return { width: even(options.width), height: even(options.width * POLAROID_ASPECT * 1.1) };
+}
+
+function drawFrame(ctx: CanvasRenderingContext2D, frames: AnimationFrame[], segment: Segment, progress: number, transition: AnimationTransition) {
+    const { width, height } = ctx.canvas;
+    const polaroidWidth = width * 0.85;
+    const polaroidHeight = polaroidWidth * POLAROID_ASPECT;
+
+    ctx.save();
+    ctx.fillStyle = BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, width, height);
+    ctx.translate(width / 2, height / 2);
+
+    const draw = (frame: AnimationFrame, develop = 1) =>
+        drawPolaroid(ctx, frame.img, frame.caption, polaroidWidth, polaroidHeight, { develop, font: frame.font, dateStamp: frame.dateStamp });
+
+    const to = frames[segment.to];
+    const eased = easeInOut(progress);
+    if (!segment.isTransition) {
+        draw(to);
+    } else if (transition === 'develop') {
+        draw(to, eased);
+    } else {
+        if (segment.from !== null) {
+            draw(frames[segment.from]);
+        }
+        ctx.globalAlpha = eased;
+        draw(to);
+    }
+
+    ctx.restore();
+}
+
+async function prepareFrames(photos: CaptionedPhoto[], captionStyle: CaptionStyle): Promise<AnimationFrame[]> {
+    if (photos.length === 0) {
+        throw new Error('There are no photos to animate');
+    }
+    const [images] = await Promise.all([
+        Promise.all(photos.map(photo => loadImage(photo.url))),
+        loadCaptionFonts(captionStyle),
+    ]);
+    const font = getHandwritingFont(captionStyle.fontId);
+    return photos.map((photo, index) => ({
+        caption: photo.caption,
+        img: images[index],
+        font,
+        dateStamp: captionStyle.showDateStamp ? photo.dateStamp : undefined,
+    }));
+}
+
+function createFrameCanvas(options: AnimationOptions): CanvasRenderingContext2D {
+    const canvas = document.createElement('canvas');
+    const { width, height } = getCanvasSize(options);
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    return ctx;
+}
+
+/**
+ * Encodes the photos as a looping animated GIF.
+ * @param photos The photos, in playback order.
+ * @param options Timing, transition, size and caption style.
+ * @returns The GIF file.
+ */
+export async function createAnimatedGif(photos: CaptionedPhoto[], options: Partial<AnimationOptions> = {}): Promise<Blob> {
+    const settings = { ...DEFAULT_ANIMATION_OPTIONS, ...options };
+    const frames = await prepareFrames(photos, settings.captionStyle);
+    const ctx = createFrameCanvas(settings);
+    const { width, height } = ctx.canvas;
+    const gif = GIFEncoder();
+
+    const writeFrame = (delay: number) => {
+        const { data } = ctx.getImageData(0, 0, width, height);
+        const palette = quantize(data, 256);
+        gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay });
+    };
+
+    for (const segment of buildTimeline(frames.length, settings)) {
+        if (!segment.isTransition) {
+            // A still photo only needs one frame, held for the whole segment
+            drawFrame(ctx, frames, segment, 1, settings.transition);
+            writeFrame(segment.durationMs);
+            continue;
+        }
+        const frameCount = Math.max(1, Math.round((segment.durationMs / 1000) * GIF_FPS));
+        for (let i = 0; i < frameCount; i++) {
+            drawFrame(ctx, frames, segment, (i + 1) / frameCount, settings.transition);
+            writeFrame(segment.durationMs / frameCount);
+        }
+        // Let the UI breathe between transitions; quantizing is CPU heavy
+        await sleep(0);
+    }
+
+    gif.finish();
+    return new Blob([gif.bytes()], { type: 'image/gif' });
+}
+
+/**
+ * Lists the video formats this browser can record, best supported first.
+ */
+export function getSupportedVideoFormats(): VideoFormat[] {
+    if (typeof MediaRecorder === 'undefined') return [];
+    return (Object.keys(VIDEO_MIME_TYPES) as VideoFormat[])
+        .filter(format => VIDEO_MIME_TYPES[format].some(type => MediaRecorder.isTypeSupported(type)));
+}
+
+/**
+ * Records the photos as a video by playing the animation on a canvas in real time.
+ * @param photos The photos, in playback order.
+ * @param format The container to record; see `getSupportedVideoFormats`.
+ * @param options Timing, transition, size and caption style.
+ * @returns The video file.
+ */
+export async function createVideo(photos: CaptionedPhoto[], format: VideoFormat, options: Partial<AnimationOptions> = {}): Promise<Blob> {
+    const mimeType = VIDEO_MIME_TYPES[format].find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+        throw new Error(`This browser cannot record ${format.toUpperCase()} video`);
+    }
+
+    const settings = { ...DEFAULT_ANIMATION_OPTIONS, ...options };
+    const frames = await prepareFrames(photos, settings.captionStyle);
+    const ctx = createFrameCanvas(settings);
+    const recorder = new MediaRecorder(ctx.canvas.captureStream(VIDEO_FPS), { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve, reject) => {
+        recorder.onstop = () => resolve();
+        recorder.onerror = () => reject(new Error('Video recording failed'));
+    });
+
+    // Draw the first frame before starting so the video doesn't open on a blank canvas
+    const timeline = buildTimeline(frames.length, settings);
+    drawFrame(ctx, frames, timeline[0], 0, settings.transition);
+    recorder.start();
+
+    for (const segment of timeline) {
+        const start = performance.now();
+        let progress = 0;
+        while (progress < 1) {
+            progress = Math.min(1, (performance.now() - start) / segment.durationMs);
+            // Redraw every tick, even when holding, so the stream keeps emitting frames
+            drawFrame(ctx, frames, segment, progress, settings.transition);
+            await sleep(1000 / VIDEO_FPS);
+        }
+    }
+
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GeneratedImage } from '../types';
+
+/**
+ * One source photo in a batch, with its results for every era.
+ */
+export interface BatchPhoto {
+    id: string;
+    fileName: string;
+    /** Who is in the photo; photos with the same name are grouped together. */
+    person: string;
+    sourceImage: string;
+    results: Record<string, GeneratedImage>;
+}
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|heic|heif)$/i;
+
+/**
+ * Whether a file looks like a photo the app can read. HEIC files often arrive without a MIME type.
+ */
+export function isImageFile(file: File): boolean {
+    return file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+}
+
+/**
+ * Guesses who is in a photo from its file name, so "alice_2.jpg" and "Alice-3.png" group together.
+ * @param fileName The photo's file name.
+ */
+export function guessPersonName(fileName: string): string {
+    const stem = fileName.replace(/\.[^.]+$/, '');
+    const name = stem.replace(/[\s_-]*\(?\d+\)?$/, '').replace(/[_-]+/g, ' ').trim();
+    return name ? name.charAt(0).toUpperCase() + name.slice(1) : stem;
+}
+
+function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns at most ~100 entries per call, so keep reading until it runs dry
+    return new Promise((resolve, reject) => {
+        const readBatch = () => reader.readEntries(batch => {
+            if (batch.length === 0) {
+                resolve(entries);
+            } else {
+                entries.push(...batch);
+                readBatch();
+            }
+        }, reject);
+        readBatch();
+    });
+}
+
+async function collectEntryFiles(entry: FileSystemEntry): Promise<File[]> {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        return [file];
+    }
+    if (entry.isDirectory) {
+        const children = await readDirectory(entry as FileSystemDirectoryEntry);
+        return (await Promise.all(children.map(collectEntryFiles))).flat();
+    }
+    return [];
+}
+
+/**
+ * Collects the image files from a drop, walking into any dropped folders.
+ * @param dataTransfer The drop event's data.
+ * @returns The dropped images, sorted by name.
+ */
+export async function collectDroppedImages(dataTransfer: DataTransfer): Promise<File[]> {
+    // Entries must be read synchronously, before the drop event handler returns
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+
+    const files = entries.length > 0
+        ? (await Promise.all(entries.map(collectEntryFiles))).flat()
+        : Array.from(dataTransfer.files);
+
+    return sortImageFiles(files);
+}
+
+/**
+ * Keeps only image files, in a stable, natural name order.
+ */
+export function sortImageFiles(files: File[]): File[] {
+    return files
+        .filter(isImageFile)
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
+
+/**
+ * Groups batch photos by person, keeping the order in which each person first appears.
+ */
+export function groupPhotosByPerson(photos: BatchPhoto[]): { person: string; photos: BatchPhoto[] }[] {
+    const groups = new Map<string, BatchPhoto[]>();
+    for (const photo of photos) {
+        const key = photo.person.trim() || 'Unnamed';
+        groups.set(key, [...(groups.get(key) ?? []), photo]);
+    }
+    return Array.from(groups, ([person, groupPhotos]) => ({ person, photos: groupPhotos }));
+}
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { PreprocessOptions } from './imagePreprocessing';
+
+export type FacingMode = 'user' | 'environment';
+
+export interface CameraResolution {
+    id: string;
+    label: string;
+    /** The preferred frame size; the browser picks the closest the camera supports. */
+    width?: number;
+    height?: number;
+}
+
+export interface CaptureQuality {
+    id: string;
+    label: string;
+    /** How the captured frame is encoded, as for uploads. */
+    preprocess: Partial<PreprocessOptions>;
+}
+
+export interface CameraSettings {
+    /** A specific camera from `listVideoDevices`; when empty, the camera is chosen by `facingMode`. */
+    deviceId?: string;
+    facingMode: FacingMode;
+    resolutionId: string;
+    /** Show the preview like a mirror and save the photo the same way round. */
+    mirror: boolean;
+    /** Light the shot: the torch where the camera has one, otherwise a white screen. */
+    flash: boolean;
+    /** Seconds counted down after pressing "Snap Photo". */
+    timerSeconds: number;
+    qualityId: string;
+}
+
+export const CAMERA_RESOLUTIONS: CameraResolution[] = [
+    { id: 'auto', label: 'Auto' },
+    { id: '720p', label: '720p', width: 1280, height: 720 },
+    { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+    { id: '4k', label: '4K', width: 3840, height: 2160 },
+];
+
+export const CAPTURE_QUALITIES: CaptureQuality[] = [
+    { id: 'standard', label: 'Standard', preprocess: {} },
+    { id: 'high', label: 'High', preprocess: { maxDimension: 2048, quality: 0.95 } },
+    { id: 'full', label: 'Full size', preprocess: { maxDimension: 4096, quality: 0.98 } },
+];
+
+export const TIMER_OPTIONS = [0, 3, 10];
+
+/** How long the flash is lit before the frame is captured, so the camera can adjust its exposure. */
+export const FLASH_LEAD_MS = 250;
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+    facingMode: 'user',
+    resolutionId: 'auto',
+    mirror: true,
+    flash: false,
+    timerSeconds: 0,
+    qualityId: 'standard',
+};
+
+const CAMERA_SETTINGS_STORAGE_KEY = 'past-forward:camera-settings';
+
+export function getCameraResolution(id: string): CameraResolution {
+    return CAMERA_RESOLUTIONS.find(resolution => resolution.id === id) ?? CAMERA_RESOLUTIONS[0];
+}
+
+export function getCaptureQuality(id: string): CaptureQuality {
+    return CAPTURE_QUALITIES.find(quality => quality.id === id) ?? CAPTURE_QUALITIES[0];
+}
+
+/**
+ * Builds the `getUserMedia` video constraints for the settings.
+ * A chosen device takes precedence over the facing mode.
+ */
+export function buildVideoConstraints(settings: CameraSettings): MediaTrackConstraints {
+    const { width, height } = getCameraResolution(settings.resolutionId);
+    return {
+        ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: settings.facingMode }),
+        ...(width && height ? { width: { ideal: width }, height: { ideal: height } } : {}),
+    };
+}
+
+/**
+ * Switches between the front and back camera. Front cameras are mirrored by default,
+ * like a mirror; back cameras are not.
+ */
+export function switchFacingMode(settings: CameraSettings): CameraSettings {
+    const facingMode: FacingMode = settings.facingMode === 'user' ? 'environment' : 'user';
+    return { ...settings, deviceId: undefined, facingMode, mirror: facingMode === 'user' };
+}
+
+/**
+ * Lists the connected cameras. Browsers only fill in the labels once camera access
+ * has been granted, so this is best called after a stream has started.
+ */
+export async function listVideoDevices(): Promise<MediaDeviceInfo[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'videoinput');
+}
+
+/**
+ * Turns a camera's torch on or off, where the browser and camera support it.
+ * @returns Whether the torch could be set.
+ */
+export async function setTorch(track: MediaStreamTrack | undefined, on: boolean): Promise<boolean> {
+    const capabilities = track?.getCapabilities?.() as (MediaTrackCapabilities & { torch?: boolean }) | undefined;
+    if (!track || !capabilities?.torch) return false;
+    try {
+        await track.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] });
+        return true;
+    } catch (error) {
+        console.warn("Could not set the torch:", error);
+        return false;
+    }
+}
+
+/**
+ * Loads the camera settings from local storage.
+ * @returns The stored settings merged over the defaults.
+ */
+export function loadCameraSettings(): CameraSettings {
+    try {
+        const stored = localStorage.getItem(CAMERA_SETTINGS_STORAGE_KEY);
+        return stored ? { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CAMERA_SETTINGS;
+    } catch (error) {
+        console.error("Failed to load camera settings:", error);
+        return DEFAULT_CAMERA_SETTINGS;
+    }
+}
+
+/**
+ * Saves the camera settings to local storage.
+ * @param settings The settings to persist.
+ */
+export function saveCameraSettings(settings: CameraSettings): void {
+    localStorage.setItem(CAMERA_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
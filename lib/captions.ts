@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { hashString } from './random';
+import type { Era } from './eraCatalog';
+import type { CardPlacement } from '../types';
+
+/**
+ * The user's edits to one card's caption. Empty fields fall back to the era's defaults.
+ */
+export interface CardCaption {
+    /** Handwritten on the polaroid's frame: names, a place, a note. */
+    text?: string;
+    /** Printed in the photo's corner when date stamps are on. */
+    date?: string;
+}
+
+export interface HandwritingFont {
+    id: string;
+    label: string;
+    /** The CSS font family, as loaded in index.html. */
+    family: string;
+    /** Scales the caption so every font reads at about the same size. */
+    scale: number;
+}
+
+export interface CaptionStyle {
+    fontId: string;
+    /** Print an orange date stamp in each photo's corner, like old point-and-shoot cameras. */
+    showDateStamp: boolean;
+}
+
+export const HANDWRITING_FONTS: HandwritingFont[] = [
+    { id: 'permanent-marker', label: 'Marker', family: "'Permanent Marker', cursive", scale: 1 },
+    { id: 'caveat', label: 'Caveat', family: "'Caveat', cursive", scale: 1.35 },
+    { id: 'homemade-apple', label: 'Script', family: "'Homemade Apple', cursive", scale: 0.85 },
+    { id: 'indie-flower', label: 'Indie Flower', family: "'Indie Flower', cursive", scale: 1.1 },
+    { id: 'shadows-into-light', label: 'Pencil', family: "'Shadows Into Light', cursive", scale: 1.15 },
+];
+
+export const DATE_STAMP_FONT = "'VT323', monospace";
+export const DATE_STAMP_COLOR = '#ff9a2e';
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+    fontId: 'permanent-marker',
+    showDateStamp: false,
+};
+
+const CAPTION_STYLE_STORAGE_KEY = 'past-forward:caption-style';
+
+export function getHandwritingFont(id: string): HandwritingFont {
+    return HANDWRITING_FONTS.find(font => font.id === id) ?? HANDWRITING_FONTS[0];
+}
+
+/**
+ * The text written on a card: the user's caption, or the era's.
+ */
+export function getCaptionText(era: Era, caption: CardCaption | undefined): string {
+    return caption?.text?.trim() || era.caption;
+}
+
+/**
+ * Makes up a plausible camera date stamp for an era, e.g. `'76 8 14` for the 1970s.
+ * The date is derived from the era id, so it is the same every time.
+ * Eras without a year in their label get no default date.
+ */
+export function getDefaultDateStamp(era: Era): string {
+    const match = /(\d{3})\d/.exec(era.label) ?? /(\d{3})\d/.exec(era.id);
+    if (!match) return '';
+    const hash = hashString(`date-stamp:${era.id}`);
+    const year = Number(`${match[1]}0`) + 2 + (hash % 7);
+    const month = 1 + ((hash >>> 3) % 12);
+    const day = 1 + ((hash >>> 7) % 28);
+    return `'${String(year).slice(-2)} ${month} ${day}`;
+}
+
+/**
+ * The date stamp for a card, or an empty string when stamps are off or there is no date.
+ */
+export function getDateStamp(era: Era, caption: CardCaption | undefined, style: CaptionStyle): string {
+    if (!style.showDateStamp) return '';
+    return caption?.date?.trim() || getDefaultDateStamp(era);
+}
+
+/**
+ * One photo in an album, GIF or video export.
+ */
+export interface CaptionedPhoto {
+    caption: string;
+    url: string;
+    /** Printed in the photo's corner when the export's caption style shows date stamps. */
+    dateStamp?: string;
+    /** Where the user arranged the card on the desktop board, for the "arrangement" layout. */
+    placement?: CardPlacement;
+}
+
+/**
+ * Builds the photo list the album and animation exports take, in the order given.
+ * @param eras The eras to include, each with the image to use and, optionally, its card placement.
+ * @param captions The user's caption edits, by era id.
+ * @param style Decides whether each photo gets a date stamp.
+ */
+export function buildCaptionedPhotos(
+    eras: { era: Era; url: string; placement?: CardPlacement }[],
+    captions: Record<string, CardCaption>,
+    style: CaptionStyle,
+): CaptionedPhoto[] {
+    return eras.map(({ era, url, placement }) => ({
+        caption: getCaptionText(era, captions[era.id]),
+        url,
+        dateStamp: getDateStamp(era, captions[era.id], style) || undefined,
+        placement,
+    }));
+}
+
+/**
+ * Waits for a caption font to load, so canvas exports don't fall back to a default font.
+ * Failures are ignored; the canvas then uses the fallback family.
+ */
+export async function loadCaptionFonts(style: CaptionStyle): Promise<void> {
+    if (typeof document === 'undefined' || !document.fonts) return;
+    const families = [getHandwritingFont(style.fontId).family, ...(style.showDateStamp ? [DATE_STAMP_FONT] : [])];
+    await Promise.all(families.map(family => document.fonts.load(`48px ${family}`).catch(() => undefined)));
+}
+
+/**
+ * Loads the user's caption style from local storage.
+ * @returns The stored style merged over the defaults.
+ */
+export function loadCaptionStyle(): CaptionStyle {
+    try {
+        const stored = localStorage.getItem(CAPTION_STYLE_STORAGE_KEY);
+        return stored ? { ...DEFAULT_CAPTION_STYLE, ...JSON.parse(stored) } : DEFAULT_CAPTION_STYLE;
+    } catch (error) {
+        console.error("Failed to load caption style:", error);
+        return DEFAULT_CAPTION_STYLE;
+    }
+}
+
+/**
+ * Saves the user's caption style to local storage.
+ * @param style The style to persist.
+ */
+export function saveCaptionStyle(style: CaptionStyle): void {
+    localStorage.setItem(CAPTION_STYLE_STORAGE_KEY, JSON.stringify(style));
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getEraPosition } from './eraCatalog';
+import type { Era } from './eraCatalog';
+import type { CardPlacement } from '../types';
+
+/** The desktop results board at full width (max-w-5xl by 600px). */
+export const ARRANGEMENT_BOARD = { width: 1024, height: 600 };
+/** A polaroid card on the board (w-80, aspect 3/4). */
+export const ARRANGEMENT_CARD = { width: 320, height: 320 * 4 / 3 };
+
+/**
+ * Converts an era's default scattered position into a placement.
+ * @param era The era being placed.
+ * @param index The era's index among the cards being shown.
+ */
+export function getDefaultPlacement(era: Era, index: number): CardPlacement {
+    const { top, left, rotate } = getEraPosition(era, index);
+    return {
+        x: parseFloat(left) / 100 + ARRANGEMENT_CARD.width / 2 / ARRANGEMENT_BOARD.width,
+        y: parseFloat(top) / 100 + ARRANGEMENT_CARD.height / 2 / ARRANGEMENT_BOARD.height,
+        rotation: rotate,
+        zIndex: 0,
+    };
+}
+
+/**
+ * Records where a card ended up, from its on-screen bounds.
+ * @param cardRect The card's bounding rectangle after dragging.
+ * @param boardRect The board's bounding rectangle.
+ * @param rotation The card's rotation in degrees.
+ * @param zIndex The card's stacking order.
+ */
+export function measurePlacement(cardRect: DOMRect, boardRect: DOMRect, rotation: number, zIndex: number): CardPlacement {
+    return {
+        x: (cardRect.left + cardRect.width / 2 - boardRect.left) / boardRect.width,
+        y: (cardRect.top + cardRect.height / 2 - boardRect.top) / boardRect.height,
+        rotation,
+        zIndex,
+    };
+}
+
+/**
+ * CSS offsets that put a card's top-left corner where the placement's center needs it.
+ */
+export function getPlacementStyle(placement: CardPlacement): { top: string; left: string } {
+    return {
+        top: `calc(${placement.y * 100}% - ${ARRANGEMENT_CARD.height / 2}px)`,
+        left: `calc(${placement.x * 100}% - ${ARRANGEMENT_CARD.width / 2}px)`,
+    };
+}
+
+/**
+ * The z-index that puts a card above every other card.
+ */
+export function getTopZIndex(arrangement: Record<string, CardPlacement>): number {
+    return Object.values(arrangement).reduce((max, placement) => Math.max(max, placement.zIndex), 0) + 1;
+}
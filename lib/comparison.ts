@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * How a card compares its result with the original photo.
+ * 'wipe' drags a divider across the two, 'peek' shows the original while held down
+ * and 'side-by-side' splits the photo in half.
+ */
+export type ComparisonMode = 'off' | 'wipe' | 'peek' | 'side-by-side';
+
+export const COMPARISON_MODES: { id: ComparisonMode; label: string }[] = [
+    { id: 'off', label: 'Result' },
+    { id: 'wipe', label: 'Wipe' },
+    { id: 'peek', label: 'Hold to peek' },
+    { id: 'side-by-side', label: 'Side by side' },
+];
+
+export function getComparisonLabel(mode: ComparisonMode): string {
+    return COMPARISON_MODES.find(option => option.id === mode)?.label ?? mode;
+}
+
+/**
+ * The mode after `mode`, wrapping back to 'off'.
+ */
+export function getNextComparisonMode(mode: ComparisonMode): ComparisonMode {
+    const index = COMPARISON_MODES.findIndex(option => option.id === mode);
+    return COMPARISON_MODES[(index + 1) % COMPARISON_MODES.length].id;
+}
+
+/**
+ * Zoom and pan of the lightbox image. The image is scaled around the center of the
+ * viewport, then moved by `x` and `y` screen pixels.
+ */
+export interface ZoomView {
+    scale: number;
+    x: number;
+    y: number;
+}
+
+export const DEFAULT_ZOOM_VIEW: ZoomView = { scale: 1, x: 0, y: 0 };
+export const MIN_LIGHTBOX_ZOOM = 1;
+export const MAX_LIGHTBOX_ZOOM = 8;
+/** The zoom a double click or the +/- buttons change by. */
+export const LIGHTBOX_ZOOM_STEP = 1.5;
+
+/**
+ * Limits the pan so the image can't be pushed out of view.
+ * @param width The displayed (unzoomed) width of the image.
+ * @param height The displayed (unzoomed) height of the image.
+ */
+export function clampZoomView(view: ZoomView, width: number, height: number): ZoomView {
+    const scale = Math.min(MAX_LIGHTBOX_ZOOM, Math.max(MIN_LIGHTBOX_ZOOM, view.scale));
+    const maxX = ((scale - 1) * width) / 2;
+    const maxY = ((scale - 1) * height) / 2;
+    return {
+        scale,
+        x: Math.min(maxX, Math.max(-maxX, view.x)),
+        y: Math.min(maxY, Math.max(-maxY, view.y)),
+    };
+}
+
+/**
+ * Zooms to `scale`, keeping the image point under `pointX`, `pointY` in place.
+ * @param pointX The zoom center, in screen pixels from the center of the image's box.
+ * @param pointY The zoom center, in screen pixels from the center of the image's box.
+ */
+export function zoomAtPoint(view: ZoomView, scale: number, pointX: number, pointY: number, width: number, height: number): ZoomView {
+    const nextScale = Math.min(MAX_LIGHTBOX_ZOOM, Math.max(MIN_LIGHTBOX_ZOOM, scale));
+    const ratio = nextScale / view.scale;
+    return clampZoomView({
+        scale: nextScale,
+        x: pointX - (pointX - view.x) * ratio,
+        y: pointY - (pointY - view.y) * ratio,
+    }, width, height);
+}
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const DB_NAME = 'past-forward';
+const DB_VERSION = 2;
+export const SESSIONS_STORE = 'sessions';
+export const REFERENCES_STORE = 'references';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Wraps an IDBRequest in a promise
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+}
+
+/**
+ * Opens (and on first use, creates or upgrades) the app's database. The connection is shared.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            let isBlocked = false;
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                    const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                    store.createIndex('updatedAt', 'updatedAt');
+                }
+                // Added in version 2
+                if (!db.objectStoreNames.contains(REFERENCES_STORE)) {
+                    const store = db.createObjectStore(REFERENCES_STORE, { keyPath: 'id' });
+                    store.createIndex('eraId', 'eraId');
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // The open went through after the promise already failed as blocked; a retry opens its own
+                if (isBlocked) {
+                    db.close();
+                    return;
+                }
+                // Let another tab upgrade the database instead of blocking it; the next request reopens it
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error ?? new Error('Failed to open database'));
+            // Another tab still has the old version open; fail instead of waiting indefinitely
+            request.onblocked = () => {
+                isBlocked = true;
+                reject(new Error('The database upgrade is blocked by another open tab. Close other Past Forward tabs and try again.'));
+            };
+        });
+        // Allow a later retry if opening failed
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+/**
+ * Runs a single request against one of the app's object stores.
+ * @param storeName The object store to use.
+ * @param mode The transaction mode.
+ * @param run Issues the request.
+ */
+export async function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    return promisifyRequest(run(transaction.objectStore(storeName)));
+}
+
+/**
+ * Generates a unique id for a stored record.
+ */
+export function createRecordId(): string {
+    return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Triggers a browser download of a URL (data URL, blob URL or same-origin link).
+ * @param href The URL to download.
+ * @param filename The suggested file name.
+ */
+export function downloadUrl(href: string, filename: string): void {
+    const link = document.createElement('a');
+    link.href = href;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+}
+
+/**
+ * Triggers a browser download of a blob, releasing its object URL afterwards.
+ * @param blob The file contents.
+ * @param filename The suggested file name.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, filename);
+    // Give the browser a moment to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
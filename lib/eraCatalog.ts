@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import defaultCatalog from '../data/eras.json';
+import { buildPromptVariables, composePrompt } from './promptTemplate';
+import type { PromptSettings } from './promptTemplate';
+import { DEFAULT_SUBJECT_SETTINGS, buildSubjectInstructions } from './subjects';
+import type { SubjectSettings } from './subjects';
+
+/** Where a card sits in the scattered desktop layout. */
+export interface EraPosition {
+    top: string;
+    left: string;
+    rotate: number;
+}
+
+/**
+ * A single era the app can generate. Templates are rendered with `renderTemplate`, so they may
+ * reference `{era}`, `{subjectType}`, `{photoMedium}`, `{region}` and `{mood}`.
+ */
+export interface Era {
+    id: string;
+    label: string;
+    caption: string;
+    promptTemplate: string;
+    fallbackPromptTemplate: string;
+    /** The era's default photo medium (e.g., "instant photo"), used unless the user overrides it. */
+    photoMedium?: string;
+    /** Style modifier ids always applied to this era. */
+    modifiers: string[];
+    /** URLs of era photos sent alongside the source so the model matches their grain, palette and framing. */
+    referenceImages: string[];
+    position?: EraPosition;
+    /** True for eras the user added themselves. */
+    custom?: boolean;
+}
+
+const CUSTOM_ERAS_STORAGE_KEY = 'past-forward:custom-eras';
+
+const DEFAULT_PROMPT_TEMPLATE = "Reimagine this photo to look like it was taken in the {era}[ in {region}]. Modify everything in the image, including any {subjectType}, clothing, hairstyles, and the background, to match the style and photo quality of that era.[ The overall mood should be {mood}.] The output must be a clear, photorealistic {photoMedium}.";
+const DEFAULT_FALLBACK_PROMPT_TEMPLATE = "Create a {photoMedium} from this image as if it were taken in the {era}[ in {region}]. The new {photoMedium} should capture the distinct fashion, hairstyles, background, and overall atmosphere of that time period.[ The overall mood should be {mood}.] Ensure the final image is a clear {photoMedium} that looks authentic to the era.";
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+function parsePosition(value: unknown): EraPosition | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    const { top, left, rotate } = value as Record<string, unknown>;
+    if (isNonEmptyString(top) && isNonEmptyString(left) && typeof rotate === 'number') {
+        return { top, left, rotate };
+    }
+    return undefined;
+}
+
+/**
+ * Validates a single era entry, filling in optional fields.
+ * @param value The raw JSON value.
+ * @returns The parsed era.
+ */
+function parseEra(value: unknown): Era {
+    if (!value || typeof value !== 'object') {
+        throw new Error('Era catalog entries must be objects.');
+    }
+    const raw = value as Record<string, unknown>;
+    if (!isNonEmptyString(raw.id) || !isNonEmptyString(raw.label)) {
+        throw new Error(`Era catalog entry is missing an "id" or "label": ${JSON.stringify(value)}`);
+    }
+    return {
+        id: raw.id,
+        label: raw.label,
+        caption: isNonEmptyString(raw.caption) ? raw.caption : raw.label,
+        promptTemplate: isNonEmptyString(raw.promptTemplate) ? raw.promptTemplate : DEFAULT_PROMPT_TEMPLATE,
+        fallbackPromptTemplate: isNonEmptyString(raw.fallbackPromptTemplate) ? raw.fallbackPromptTemplate : DEFAULT_FALLBACK_PROMPT_TEMPLATE,
+        photoMedium: isNonEmptyString(raw.photoMedium) ? raw.photoMedium : undefined,
+        modifiers: Array.isArray(raw.modifiers) ? raw.modifiers.filter(isNonEmptyString) : [],
+        referenceImages: Array.isArray(raw.referenceImages) ? raw.referenceImages.filter(isNonEmptyString) : [],
+        position: parsePosition(raw.position),
+        custom: raw.custom === true,
+    };
+}
+
+/**
+ * Parses an era catalog from JSON, either `{ "eras": [...] }` or a bare array.
+ * @param json The parsed JSON value.
+ * @returns The list of eras, in catalog order.
+ */
+export function parseEraCatalog(json: unknown): Era[] {
+    const entries = Array.isArray(json) ? json : (json as { eras?: unknown })?.eras;
+    if (!Array.isArray(entries)) {
+        throw new Error('Era catalog must be an array or an object with an "eras" array.');
+    }
+    const eras = entries.map(parseEra);
+    const seen = new Set<string>();
+    for (const era of eras) {
+        if (seen.has(era.id)) {
+            throw new Error(`Duplicate era id "${era.id}" in catalog.`);
+        }
+        seen.add(era.id);
+    }
+    return eras;
+}
+
+/** The built-in eras shipped with the app. */
+export const DEFAULT_ERAS: Era[] = parseEraCatalog(defaultCatalog);
+
+/**
+ * Renders the primary and fallback prompts for an era.
+ * Both use the same variables, modifiers and subject instructions so the fallback keeps the user's styling.
+ * @param era The era being generated.
+ * @param settings The user's prompt settings.
+ * @param subject Whether the photo shows one person, a group, or two people to composite.
+ */
+export function buildEraPrompts(era: Era, settings: PromptSettings, subject: SubjectSettings = DEFAULT_SUBJECT_SETTINGS): { prompt: string; fallbackPrompt: string } {
+    const variables = buildPromptVariables(era.label, era.photoMedium, settings);
+    const modifierIds = [...era.modifiers, ...settings.modifierIds];
+    const instructions = buildSubjectInstructions(subject);
+    const withInstructions = (prompt: string) => instructions ? `${prompt} ${instructions}` : prompt;
+    return {
+        prompt: withInstructions(composePrompt(era.promptTemplate, variables, modifierIds)),
+        fallbackPrompt: withInstructions(composePrompt(era.fallbackPromptTemplate, variables, modifierIds)),
+    };
+}
+
+/**
+ * Returns the desktop layout position for an era, generating one for eras without a fixed spot.
+ * @param era The era being placed.
+ * @param index The era's index among the cards being shown.
+ */
+export function getEraPosition(era: Era, index: number): EraPosition {
+    if (era.position) return era.position;
+    const columns = 4;
+    return {
+        top: `${(Math.floor(index / columns) % 3) * 22 + 2}%`,
+        left: `${(index % columns) * 23 + 3}%`,
+        rotate: ((index * 7) % 17) - 8,
+    };
+}
+
+/**
+ * Sorts eras by the first year in their label or id, e.g. "1890s" before "1950s".
+ * Eras without a year keep their relative order after the dated ones.
+ * @param eras The eras to sort; the array is not modified.
+ */
+export function sortErasChronologically(eras: Era[]): Era[] {
+    const yearOf = (era: Era) => {
+        const match = /\d{3,4}/.exec(era.label) ?? /\d{3,4}/.exec(era.id);
+        return match ? Number(match[0]) : Infinity;
+    };
+    return [...eras].sort((a, b) => yearOf(a) - yearOf(b));
+}
+
+/**
+ * Builds a custom era from user input.
+ * @param label The display label (e.g., "1920s").
+ * @param existingIds Ids already in use, to keep the new id unique.
+ * @param promptTemplate An optional custom prompt template (see `renderTemplate`).
+ */
+export function createCustomEra(label: string, existingIds: string[], promptTemplate?: string): Era {
+    const trimmedLabel = label.trim();
+    const baseId = trimmedLabel.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'era';
+    let id = baseId;
+    let suffix = 2;
+    while (existingIds.includes(id)) {
+        id = `${baseId}-${suffix++}`;
+    }
+    return parseEra({
+        id,
+        label: trimmedLabel,
+        caption: trimmedLabel,
+        promptTemplate: promptTemplate?.trim() || undefined,
+        custom: true,
+    });
+}
+
+/**
+ * Loads the user's custom eras from local storage.
+ * @returns The stored eras, or an empty list if none are stored or the data is invalid.
+ */
+export function loadCustomEras(): Era[] {
+    try {
+        const stored = localStorage.getItem(CUSTOM_ERAS_STORAGE_KEY);
+        return stored ? parseEraCatalog(JSON.parse(stored)).map(era => ({ ...era, custom: true })) : [];
+    } catch (error) {
+        console.error("Failed to load custom eras:", error);
+        return [];
+    }
+}
+
+/**
+ * Saves the user's custom eras to local storage.
+ * @param eras The custom eras to persist.
+ */
+export function saveCustomEras(eras: Era[]): void {
+    localStorage.setItem(CUSTOM_ERAS_STORAGE_KEY, JSON.stringify({ eras }));
+}
@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { UNDEVELOPED_OVERLAY } from './albumUtils';
+import { ARRANGEMENT_BOARD, ARRANGEMENT_CARD, getPlacementStyle } from './cardArrangement';
+import { DATE_STAMP_COLOR, DATE_STAMP_FONT, getHandwritingFont } from './captions';
+import type { CaptionStyle } from './captions';
+import type { AlbumTheme } from './albumLayouts';
+import type { CardPlacement } from '../types';
+
+export interface GalleryPhoto {
+    caption: string;
+    /** A data URL, so the page works offline. */
+    imageUrl: string;
+    /** Printed in the photo's corner when set. */
+    dateStamp?: string;
+    /** Where the card sits on the wall, as arranged on the desktop board. */
+    placement: CardPlacement;
+}
+
+export interface GalleryExportInput {
+    title: string;
+    subtitle: string;
+    photos: GalleryPhoto[];
+    captionStyle: CaptionStyle;
+    /** Colors the page like the album. */
+    theme: AlbumTheme;
+}
+
+const GOOGLE_FONTS_URL = 'https://fonts.googleapis.com/css2';
+// Only the Latin subsets are inlined; the rest would multiply the file size for little gain
+const INLINED_SUBSETS = ['latin', 'latin-ext'];
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * The Google Fonts family name in a CSS font stack, e.g. `Permanent Marker`.
+ */
+function getFontName(family: string): string {
+    return family.split(',')[0].replace(/['"]/g, '').trim();
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Downloads the gallery's fonts and returns their `@font-face` rules with the font files
+ * inlined, so captions keep their handwriting offline.
+ * @returns The CSS, or an empty string if the fonts could not be fetched.
+ */
+async function fetchInlinedFontCss(names: string[]): Promise<string> {
+    try {
+        const query = names
+            .map(name => `family=${name.replace(/ /g, '+')}${name === 'Caveat' ? ':wght@700' : ''}`)
+            .join('&');
+        const response = await fetch(`${GOOGLE_FONTS_URL}?${query}&display=swap`);
+        if (!response.ok) throw new Error(`Font CSS request failed with status ${response.status}`);
+        const css = await response.text();
+
+        // Rules are preceded by a comment naming their subset; fonts with a single subset have none
+        const rules = [...css.matchAll(/(?:\/\*\s*([\w-]+)\s*\*\/\s*)?(@font-face\s*{[^}]*})/g)]
+            .filter(([, subset]) => !subset || INLINED_SUBSETS.includes(subset))
+            .map(([, , rule]) => rule);
+
+        const inlined = await Promise.all(rules.map(async rule => {
+            const url = rule.match(/url\(([^)]+)\)/)?.[1];
+            if (!url) return rule;
+            const font = await fetch(url);
+            if (!font.ok) throw new Error(`Font request failed with status ${font.status}`);
+            return rule.replace(url, await blobToDataUrl(await font.blob()));
+        }));
+        return inlined.join('\n');
+    } catch (error) {
+        console.warn("Could not inline the gallery fonts; captions will use a fallback font offline:", error);
+        return '';
+    }
+}
+
+/**
+ * The page's styles. The cards mirror PolaroidCard: the frame, the photo developing from
+ * a dark chemical layer over a flat sepia print, the handwritten caption and the date stamp.
+ */
+function buildStyles(input: GalleryExportInput, fontCss: string): string {
+    const font = getHandwritingFont(input.captionStyle.fontId);
+    const { theme } = input;
+    return `${fontCss}
+* { box-sizing: border-box; }
+body { margin: 0; min-height: 100vh; background: ${theme.background}; font-family: system-ui, sans-serif; }
+header { text-align: center; padding: 48px 16px 24px; }
+h1 { margin: 0; font-family: 'Caveat', cursive; font-weight: 700; font-size: clamp(3rem, 8vw, 6rem); color: ${theme.titleColor}; }
+header p { margin: 8px 0 0; font-family: 'Permanent Marker', cursive; font-size: 1.25rem; color: ${theme.subtitleColor}; }
+.wall { position: relative; width: ${ARRANGEMENT_BOARD.width}px; max-width: 100%; height: ${ARRANGEMENT_BOARD.height}px; margin: 24px auto 64px; }
+.card { position: absolute; width: ${ARRANGEMENT_CARD.width}px; aspect-ratio: 3 / 4; padding: 16px 16px 64px; background: #f5f5f5; border-radius: 6px; box-shadow: 0 10px 15px -3px rgba(0,0,0,0.3), 0 4px 6px -4px rgba(0,0,0,0.3); cursor: grab; touch-action: none; user-select: none; transition: box-shadow 0.2s; }
+.card.dragging { cursor: grabbing; box-shadow: 0 25px 50px -12px rgba(0,0,0,0.5); }
+.photo { position: relative; width: 100%; height: 100%; overflow: hidden; background: #171717; box-shadow: inset 0 2px 4px rgba(0,0,0,0.05); cursor: zoom-in; }
+.photo img { display: block; width: 100%; height: 100%; object-fit: cover; pointer-events: none; transition: all 4000ms ease-in-out; }
+.overlay { position: absolute; inset: 0; z-index: 1; background: ${UNDEVELOPED_OVERLAY}; opacity: 0; transition: opacity 3500ms ease-out; }
+.stamp { position: absolute; right: 12px; bottom: 8px; z-index: 2; font-family: ${DATE_STAMP_FONT}; font-size: 1.25rem; letter-spacing: 0.05em; color: ${DATE_STAMP_COLOR}; text-shadow: 0 0 6px ${DATE_STAMP_COLOR}; opacity: 0.9; transition: opacity 4000ms; }
+.js .card:not(.developed) .overlay { opacity: 1; }
+.js .card:not(.developed) .photo img { opacity: 0.8; filter: sepia(1) contrast(0.8) brightness(0.8); }
+.js .card:not(.developed) .stamp { opacity: 0; }
+.caption { position: absolute; left: 16px; right: 16px; bottom: 16px; margin: 0; text-align: center; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; font-family: ${font.family}; font-size: ${1.125 * font.scale}rem; color: #000; }
+.viewer { position: fixed; inset: 0; z-index: 10000; display: none; align-items: center; justify-content: center; flex-direction: column; gap: 16px; padding: 24px; background: rgba(0,0,0,0.92); cursor: zoom-out; }
+.viewer.open { display: flex; }
+.viewer img { max-width: 100%; max-height: calc(100% - 4rem); object-fit: contain; }
+.viewer p { margin: 0; font-family: ${font.family}; font-size: 1.5rem; color: #f5f5f5; }
+footer { text-align: center; padding: 0 16px 32px; font-size: 0.75rem; color: ${theme.subtitleColor}; }
+@media (max-width: ${ARRANGEMENT_BOARD.width}px) {
+  .wall { height: auto; display: flex; flex-direction: column; align-items: center; gap: 32px; }
+  .card { position: relative; top: auto !important; left: auto !important; width: min(${ARRANGEMENT_CARD.width}px, 90vw); transform: none !important; cursor: default; touch-action: auto; }
+}`;
+}
+
+/**
+ * Drags cards around the wall, brings the touched card to the front, develops each photo
+ * once it has loaded and scrolled into view, and opens photos full size on click.
+ */
+const GALLERY_SCRIPT = `
+(function () {
+  var wall = document.querySelector('.wall');
+  var viewer = document.querySelector('.viewer');
+  var topZ = 100;
+  var canDrag = function () { return window.matchMedia('(min-width: ${ARRANGEMENT_BOARD.width + 1}px)').matches; };
+
+  var develop = function (card) {
+    var img = card.querySelector('img');
+    var start = function () { setTimeout(function () { card.classList.add('developed'); }, 200); };
+    if (img.complete) start(); else img.addEventListener('load', start);
+  };
+  var cards = Array.prototype.slice.call(document.querySelectorAll('.card'));
+  if ('IntersectionObserver' in window) {
+    var observer = new IntersectionObserver(function (entries) {
+      entries.forEach(function (entry) {
+        if (!entry.isIntersecting) return;
+        observer.unobserve(entry.target);
+        develop(entry.target);
+      });
+    }, { threshold: 0.4 });
+    cards.forEach(function (card) { observer.observe(card); });
+  } else {
+    cards.forEach(develop);
+  }
+
+  cards.forEach(function (card) {
+    var start = null;
+    card.addEventListener('pointerdown', function (e) {
+      card.style.zIndex = ++topZ;
+      if (!canDrag()) return;
+      card.setPointerCapture(e.pointerId);
+      start = { x: e.clientX, y: e.clientY, left: card.offsetLeft, top: card.offsetTop, moved: false };
+    });
+    card.addEventListener('pointermove', function (e) {
+      if (!start) return;
+      var dx = e.clientX - start.x;
+      var dy = e.clientY - start.y;
+      if (!start.moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+      start.moved = true;
+      card.classList.add('dragging');
+      card.style.left = Math.min(wall.clientWidth - card.offsetWidth / 2, Math.max(-card.offsetWidth / 2, start.left + dx)) + 'px';
+      card.style.top = Math.max(-card.offsetHeight / 2, start.top + dy) + 'px';
+    });
+    var end = function () {
+      if (start && !start.moved) open(card);
+      start = null;
+      card.classList.remove('dragging');
+    };
+    card.addEventListener('pointerup', end);
+    card.addEventListener('pointercancel', function () { start = null; card.classList.remove('dragging'); });
+    card.addEventListener('click', function () { if (!canDrag()) open(card); });
+  });
+
+  function open(card) {
+    viewer.querySelector('img').src = card.querySelector('img').src;
+    viewer.querySelector('img').alt = card.querySelector('img').alt;
+    viewer.querySelector('p').textContent = card.querySelector('.caption').textContent;
+    viewer.classList.add('open');
+  }
+  viewer.addEventListener('click', function () { viewer.classList.remove('open'); });
+  document.addEventListener('keydown', function (e) { if (e.key === 'Escape') viewer.classList.remove('open'); });
+})();
+`;
+
+function buildCard(photo: GalleryPhoto, index: number): string {
+    const { top, left } = getPlacementStyle(photo.placement);
+    const style = `top: ${top}; left: ${left}; transform: rotate(${photo.placement.rotation}deg); z-index: ${photo.placement.zIndex || index + 1};`;
+    const caption = escapeHtml(photo.caption);
+    return `<figure class="card" style="${style}">
+  <div class="photo">
+    <div class="overlay" aria-hidden="true"></div>
+    ${photo.dateStamp ? `<span class="stamp" aria-hidden="true">${escapeHtml(photo.dateStamp)}</span>` : ''}
+    <img src="${photo.imageUrl}" alt="${caption}">
+  </div>
+  <figcaption class="caption">${caption}</figcaption>
+</figure>`;
+}
+
+/**
+ * Builds the gallery page. Everything it needs, images and fonts included, is inside the file.
+ * @param fontCss `@font-face` rules with inlined fonts, or empty to fall back to system fonts.
+ */
+export function buildGalleryHtml(input: GalleryExportInput, fontCss = ''): string {
+    const title = escapeHtml(input.title || 'Past Forward');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${title}</title>
+<script>document.documentElement.classList.add('js');</script>
+<style>
+${buildStyles(input, fontCss)}
+</style>
+</head>
+<body>
+<header>
+  <h1>${title}</h1>
+  ${input.subtitle ? `<p>${escapeHtml(input.subtitle)}</p>` : ''}
+</header>
+<main class="wall">
+${input.photos.map(buildCard).join('\n')}
+</main>
+<footer>Made with Past Forward &middot; ${escapeHtml(new Date().toLocaleDateString())}</footer>
+<div class="viewer" role="dialog" aria-label="Enlarged photo"><img alt=""><p></p></div>
+<script>${GALLERY_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Creates a single HTML file with the polaroid wall, which can be opened in any browser
+ * without the app, an API key or a connection.
+ * @param input The photos, captions and page styling.
+ * @returns The HTML file.
+ */
+export async function createGalleryHtml(input: GalleryExportInput): Promise<Blob> {
+    const fontNames = [
+        'Caveat',
+        'Permanent Marker',
+        getFontName(getHandwritingFont(input.captionStyle.fontId).family),
+        ...(input.photos.some(photo => photo.dateStamp) ? [getFontName(DATE_STAMP_FONT)] : []),
+    ];
+    const fontCss = await fetchInlinedFontCss([...new Set(fontNames)]);
+    return new Blob([buildGalleryHtml(input, fontCss)], { type: 'text/html' });
+}
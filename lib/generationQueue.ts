@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createAbortError } from './abort';
+
+/** Priorities for queued jobs; higher runs first. */
+export const JOB_PRIORITY = {
+    /** Jobs from a full batch, e.g. every era after pressing Generate. */
+    batch: 0,
+    /** Jobs the user asked for directly, e.g. shaking a card to regenerate it. */
+    user: 10,
+} as const;
+
+export type JobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** Counts of jobs the queue has seen since it was created or last cleared. */
+export interface QueueProgress {
+    queued: number;
+    running: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+    total: number;
+    paused: boolean;
+}
+
+export interface QueueEvent {
+    type: 'queued' | 'started' | 'completed' | 'failed' | 'cancelled' | 'paused' | 'resumed' | 'cleared';
+    /** The job the event is about; absent for queue-wide events. */
+    jobId?: string;
+    error?: unknown;
+    progress: QueueProgress;
+}
+
+export type QueueListener = (event: QueueEvent) => void;
+
+export interface EnqueueOptions {
+    /** Identifies the job for `cancel`; generated when omitted. */
+    id?: string;
+    priority?: number;
+}
+
+export interface GenerationQueue {
+    /**
+     * Adds a job. The job receives an AbortSignal that fires if it is cancelled.
+     * @returns A promise for the job's result; rejects with an AbortError if cancelled.
+     */
+    enqueue<T>(run: (signal: AbortSignal) => Promise<T>, options?: EnqueueOptions): Promise<T>;
+    /** Cancels a queued or running job. Returns false if no such job is active. */
+    cancel(id: string): boolean;
+    /** Cancels every queued and running job. */
+    cancelAll(): void;
+    /** Stops starting new jobs; running jobs are allowed to finish. */
+    pause(): void;
+    resume(): void;
+    /** Resets the progress counters and emits a 'cleared' event. Active jobs are unaffected. */
+    clearHistory(): void;
+    getProgress(): QueueProgress;
+    subscribe(listener: QueueListener): () => void;
+}
+
+interface QueueEntry {
+    id: string;
+    priority: number;
+    sequence: number;
+    state: JobState;
+    controller: AbortController;
+    start: () => void;
+    reject: (reason: unknown) => void;
+}
+
+/**
+ * Creates a priority job queue with bounded concurrency, cancellation and progress events.
+ * @param options.concurrency How many jobs may run at once.
+ */
+export function createGenerationQueue({ concurrency: requestedConcurrency = 2 }: { concurrency?: number } = {}): GenerationQueue {
+    const concurrency = Math.max(1, requestedConcurrency);
+    let paused = false;
+    let sequence = 0;
+    const entries = new Map<string, QueueEntry>();
+    // Cancelled jobs whose work hasn't stopped yet; they keep their slot until it does
+    const stopping = new Set<QueueEntry>();
+    const finished: Record<'completed' | 'failed' | 'cancelled', number> = { completed: 0, failed: 0, cancelled: 0 };
+    const listeners = new Set<QueueListener>();
+
+    const getProgress = (): QueueProgress => {
+        let queued = 0;
+        let running = 0;
+        entries.forEach(entry => {
+            if (entry.state === 'queued') queued++;
+            if (entry.state === 'running') running++;
+        });
+        return {
+            queued,
+            running,
+            ...finished,
+            total: queued + running + finished.completed + finished.failed + finished.cancelled,
+            paused,
+        };
+    };
+
+    const emit = (type: QueueEvent['type'], jobId?: string, error?: unknown) => {
+        const event: QueueEvent = { type, jobId, error, progress: getProgress() };
+        listeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (listenerError) {
+                console.error("Generation queue listener failed:", listenerError);
+            }
+        });
+    };
+
+    const finish = (entry: QueueEntry, state: 'completed' | 'failed' | 'cancelled', error?: unknown) => {
+        if (entries.get(entry.id) !== entry) return;
+        entries.delete(entry.id);
+        entry.state = state;
+        finished[state]++;
+        emit(state, entry.id, error);
+        pump();
+    };
+
+    // Starts as many queued jobs as concurrency allows, highest priority first
+    const pump = () => {
+        if (paused) return;
+        let running = [...entries.values()].filter(entry => entry.state === 'running').length + stopping.size;
+        const queued = [...entries.values()]
+            .filter(entry => entry.state === 'queued')
+            .sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+
+        for (const entry of queued) {
+            if (running >= concurrency) break;
+            running++;
+            entry.state = 'running';
+            entry.start();
+            emit('started', entry.id);
+        }
+    };
+
+    const cancel = (id: string): boolean => {
+        const entry = entries.get(id);
+        if (!entry) return false;
+        if (entry.state === 'running') stopping.add(entry);
+        entry.controller.abort();
+        entry.reject(createAbortError());
+        finish(entry, 'cancelled');
+        return true;
+    };
+
+    return {
+        enqueue<T>(run: (signal: AbortSignal) => Promise<T>, options: EnqueueOptions = {}): Promise<T> {
+            const id = options.id ?? `job-${sequence + 1}`;
+            if (entries.has(id)) {
+                return Promise.reject(new Error(`A job with id "${id}" is already queued or running.`));
+            }
+
+            return new Promise<T>((resolve, reject) => {
+                const entry: QueueEntry = {
+                    id,
+                    priority: options.priority ?? JOB_PRIORITY.batch,
+                    sequence: sequence++,
+                    state: 'queued',
+                    controller: new AbortController(),
+                    start: () => {
+                        const release = () => {
+                            stopping.delete(entry);
+                            pump();
+                        };
+                        // Through a promise so a job that throws synchronously still fails and frees its slot
+                        Promise.resolve().then(() => run(entry.controller.signal)).then(
+                            result => {
+                                if (entry.controller.signal.aborted) return release();
+                                resolve(result);
+                                finish(entry, 'completed');
+                            },
+                            error => {
+                                if (entry.controller.signal.aborted) return release();
+                                reject(error);
+                                finish(entry, 'failed', error);
+                            },
+                        );
+                    },
+                    reject,
+                };
+                entries.set(id, entry);
+                emit('queued', id);
+                pump();
+            });
+        },
+
+        cancel,
+
+        cancelAll(): void {
+            [...entries.keys()].forEach(cancel);
+        },
+
+        pause(): void {
+            if (paused) return;
+            paused = true;
+            emit('paused');
+        },
+
+        resume(): void {
+            if (!paused) return;
+            paused = false;
+            emit('resumed');
+            pump();
+        },
+
+        clearHistory(): void {
+            finished.completed = 0;
+            finished.failed = 0;
+            finished.cancelled = 0;
+            emit('cleared');
+        },
+
+        getProgress,
+
+        subscribe(listener: QueueListener): () => void {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+}
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from './imageUtils';
+import { DEFAULT_PREPROCESS_OPTIONS } from './imagePreprocessing';
+
+/**
+ * How the user has framed the source photo. Offsets are fractions of the frame size,
+ * so the same crop applies to the on-screen preview and the full-resolution render.
+ */
+export interface CropState {
+    /** 1 = the image just covers the frame. */
+    zoom: number;
+    /** Rotation in degrees, clockwise. */
+    rotation: number;
+    offsetX: number;
+    offsetY: number;
+    /** Width / height of the frame, or null to keep the photo's own aspect ratio. */
+    aspect: number | null;
+}
+
+export interface AspectPreset {
+    id: string;
+    label: string;
+    aspect: number | null;
+}
+
+// The polaroid's photo area is 288px wide and about 347px tall (w-80, p-4, pb-16, aspect 3/4)
+export const ASPECT_PRESETS: AspectPreset[] = [
+    { id: 'polaroid', label: 'Polaroid', aspect: 288 / 347 },
+    { id: 'square', label: 'Square', aspect: 1 },
+    { id: 'portrait', label: '3:4', aspect: 3 / 4 },
+    { id: 'original', label: 'Original', aspect: null },
+];
+
+export const DEFAULT_CROP_STATE: CropState = {
+    zoom: 1,
+    rotation: 0,
+    offsetX: 0,
+    offsetY: 0,
+    aspect: ASPECT_PRESETS[0].aspect,
+};
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 4;
+
+/**
+ * Computes the frame size for a source image and crop.
+ * @param sourceWidth The source's width.
+ * @param sourceHeight The source's height.
+ * @param aspect The frame aspect, or null for the source's own.
+ * @param maxDimension The longest side of the frame.
+ */
+export function getFrameSize(sourceWidth: number, sourceHeight: number, aspect: number | null, maxDimension: number): { width: number; height: number } {
+    const frameAspect = aspect ?? sourceWidth / sourceHeight;
+    return frameAspect >= 1
+        ? { width: maxDimension, height: Math.round(maxDimension / frameAspect) }
+        : { width: Math.round(maxDimension * frameAspect), height: maxDimension };
+}
+
+/**
+ * Computes how to draw the source inside a frame: scaled to cover the frame even when
+ * rotated, multiplied by the zoom, and shifted by the offsets.
+ * @returns The scale to apply to the source, and the translation of its center from the frame's center.
+ */
+export function getCropTransform(
+    sourceWidth: number,
+    sourceHeight: number,
+    frameWidth: number,
+    frameHeight: number,
+    crop: CropState,
+): { scale: number; translateX: number; translateY: number; rotation: number } {
+    const radians = (crop.rotation * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    // The smallest scale at which the rotated source still covers the whole frame
+    const coverScale = Math.max(
+        (frameWidth * cos + frameHeight * sin) / sourceWidth,
+        (frameWidth * sin + frameHeight * cos) / sourceHeight,
+    );
+    return {
+        scale: coverScale * crop.zoom,
+        translateX: crop.offsetX * frameWidth,
+        translateY: crop.offsetY * frameHeight,
+        rotation: crop.rotation,
+    };
+}
+
+/**
+ * Keeps offsets within a range where the zoomed image can still fill the frame.
+ */
+export function clampOffset(offset: number, zoom: number): number {
+    const limit = (zoom - 1) / 2;
+    return Math.max(-limit, Math.min(limit, offset));
+}
+
+/**
+ * Renders the cropped, rotated and zoomed photo at full resolution.
+ * @param imageDataUrl The source photo.
+ * @param crop The user's framing.
+ * @returns A data URL of the cropped photo.
+ */
+export async function renderCroppedImage(imageDataUrl: string, crop: CropState): Promise<string> {
+    const img = await loadImage(imageDataUrl);
+    const { naturalWidth, naturalHeight } = img;
+    const frame = getFrameSize(
+        naturalWidth,
+        naturalHeight,
+        crop.aspect,
+        Math.min(DEFAULT_PREPROCESS_OPTIONS.maxDimension, Math.max(naturalWidth, naturalHeight)),
+    );
+    const { scale, translateX, translateY, rotation } = getCropTransform(naturalWidth, naturalHeight, frame.width, frame.height, crop);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, frame.width, frame.height);
+    ctx.translate(frame.width / 2 + translateX, frame.height / 2 + translateY);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.scale(scale, scale);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, -naturalWidth / 2, -naturalHeight / 2);
+
+    return canvas.toDataURL(DEFAULT_PREPROCESS_OPTIONS.mimeType, DEFAULT_PREPROCESS_OPTIONS.quality);
+}
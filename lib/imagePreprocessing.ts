@@ -0,0 +1,213 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from './imageUtils';
+
+export interface PreprocessOptions {
+    /** The longest side of the output, in pixels. Larger images are downscaled. */
+    maxDimension: number;
+    mimeType: 'image/jpeg' | 'image/webp' | 'image/png';
+    /** Encoder quality for lossy formats, between 0 and 1. */
+    quality: number;
+    /** Fill for transparent areas, since JPEG has no alpha channel. */
+    background: string;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+    maxDimension: 1536,
+    mimeType: 'image/jpeg',
+    quality: 0.9,
+    background: '#ffffff',
+};
+
+/** File types accepted by the upload input, including HEIC photos from iPhones. */
+export const ACCEPTED_IMAGE_TYPES = 'image/png, image/jpeg, image/webp, image/heic, image/heif, .heic, .heif';
+
+interface DecodedImage {
+    source: CanvasImageSource;
+    width: number;
+    height: number;
+    /** Whether the decoder already rotated the pixels according to the EXIF orientation. */
+    orientationApplied: boolean;
+    close?: () => void;
+}
+
+/**
+ * Reads the EXIF orientation tag (1-8) from a JPEG file.
+ * @param buffer The file contents.
+ * @returns The orientation, or 1 (upright) if the file has none or is not a JPEG.
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+    const view = new DataView(buffer);
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const segmentLength = view.getUint16(offset + 2);
+        // APP1 segment starting with "Exif\0\0"
+        if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+            const tiffStart = offset + 10;
+            const littleEndian = view.getUint16(tiffStart) === 0x4949;
+            const firstIfd = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+            const entryCount = view.getUint16(firstIfd, littleEndian);
+            for (let i = 0; i < entryCount; i++) {
+                const entry = firstIfd + 2 + i * 12;
+                if (entry + 10 > view.byteLength) break;
+                if (view.getUint16(entry, littleEndian) === 0x0112) {
+                    const orientation = view.getUint16(entry + 8, littleEndian);
+                    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+                }
+            }
+            return 1;
+        }
+        // Stop at start-of-scan; metadata always comes before the image data
+        if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+        offset += 2 + segmentLength;
+    }
+    return 1;
+}
+
+const isHeic = (file: Blob & { name?: string }) =>
+    /image\/hei[cf]/i.test(file.type) || /\.hei[cf]$/i.test(file.name ?? '');
+
+/**
+ * Decodes an image file, preferring createImageBitmap (which honors EXIF orientation)
+ * and falling back to an <img> element.
+ */
+async function decodeImage(blob: Blob): Promise<DecodedImage> {
+    if (typeof createImageBitmap === 'function') {
+        try {
+            const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+            return { source: bitmap, width: bitmap.width, height: bitmap.height, orientationApplied: true, close: () => bitmap.close() };
+        } catch {
+            // Fall through to the <img> path, which some browsers decode more formats with
+        }
+    }
+
+    const objectUrl = URL.createObjectURL(blob);
+    try {
+        const img = await loadImage(objectUrl);
+        const orientationApplied = typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+        return { source: img, width: img.naturalWidth, height: img.naturalHeight, orientationApplied };
+    } finally {
+        URL.revokeObjectURL(objectUrl);
+    }
+}
+
+/**
+ * Converts a HEIC/HEIF photo to JPEG. The converter is large, so it is only loaded when needed.
+ */
+async function convertHeic(blob: Blob): Promise<Blob> {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob, toType: 'image/jpeg', quality: 0.95 });
+    return Array.isArray(converted) ? converted[0] : converted;
+}
+
+/**
+ * Applies the canvas transform that turns raw sensor pixels upright for an EXIF orientation.
+ * The canvas must already be sized for the rotated output.
+ */
+function applyOrientationTransform(ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) {
+    switch (orientation) {
+        case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+        case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+        case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+        case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+        case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+        case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+    }
+}
+
+/**
+ * Draws a source onto a new canvas scaled down to fit `maxDimension`, optionally mirrored and
+ * rotated upright, and encodes it. Encoding from a canvas drops all metadata (EXIF, GPS, etc.).
+ * @param source The image, bitmap, video or canvas to draw.
+ * @param width The source's width in pixels.
+ * @param height The source's height in pixels.
+ * @param options Output settings.
+ * @param transform How to orient the pixels: an EXIF orientation to correct, and whether to mirror horizontally.
+ * @returns A data URL of the encoded image.
+ */
+export function renderPreprocessed(
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    options: Partial<PreprocessOptions> = {},
+    { orientation = 1, mirror = false }: { orientation?: number; mirror?: boolean } = {},
+): string {
+    const { maxDimension, mimeType, quality, background } = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+
+    // Downscale in halving steps first; a single large reduction aliases badly
+    let stepSource = source;
+    let stepWidth = width;
+    let stepHeight = height;
+    while (stepWidth * scale < stepWidth / 2) {
+        const step = document.createElement('canvas');
+        step.width = Math.round(stepWidth / 2);
+        step.height = Math.round(stepHeight / 2);
+        const stepCtx = step.getContext('2d');
+        if (!stepCtx) break;
+        stepCtx.imageSmoothingQuality = 'high';
+        stepCtx.drawImage(stepSource, 0, 0, step.width, step.height);
+        stepSource = step;
+        stepWidth = step.width;
+        stepHeight = step.height;
+    }
+
+    const drawWidth = Math.round(width * scale);
+    const drawHeight = Math.round(height * scale);
+    const swapsAxes = orientation >= 5;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = swapsAxes ? drawHeight : drawWidth;
+    canvas.height = swapsAxes ? drawWidth : drawHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (mirror) {
+        ctx.translate(canvas.width, 0);
+        ctx.scale(-1, 1);
+    }
+    applyOrientationTransform(ctx, orientation, drawWidth, drawHeight);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(stepSource, 0, 0, drawWidth, drawHeight);
+
+    return canvas.toDataURL(mimeType, quality);
+}
+
+/**
+ * Prepares an uploaded photo for generation: converts HEIC, rotates it upright according
+ * to its EXIF orientation, downscales it and re-encodes it without metadata.
+ * @param file The uploaded file.
+ * @param options Output settings.
+ * @returns A data URL of the processed image.
+ */
+export async function preprocessImageFile(file: Blob & { name?: string }, options: Partial<PreprocessOptions> = {}): Promise<string> {
+    let blob: Blob = file;
+    let decoded: DecodedImage;
+    try {
+        decoded = await decodeImage(blob);
+    } catch (error) {
+        // Only Safari decodes HEIC natively; elsewhere convert it first
+        if (!isHeic(file)) throw error;
+        blob = await convertHeic(file);
+        decoded = await decodeImage(blob);
+    }
+
+    try {
+        const orientation = decoded.orientationApplied ? 1 : readExifOrientation(await blob.arrayBuffer());
+        const dataUrl = renderPreprocessed(decoded.source, decoded.width, decoded.height, options, { orientation });
+        console.log(`Preprocessed image: ${Math.round(file.size / 1024)}KB -> ${Math.round(dataUrl.length * 0.75 / 1024)}KB`);
+        return dataUrl;
+    } finally {
+        decoded.close?.();
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Helper function to load an image and return it as an HTMLImageElement
+export function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        // Setting crossOrigin is good practice for canvas operations, even with data URLs
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = (err) => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
+        img.src = src;
+    });
+}
+
+// Promise wrapper around canvas.toBlob
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            blob => blob ? resolve(blob) : reject(new Error(`Failed to encode canvas as ${type}`)),
+            type,
+            quality,
+        );
+    });
+}
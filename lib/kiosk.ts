@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * How an unattended event kiosk runs.
+ */
+export interface KioskSettings {
+    /** Seconds counted down before the photo is taken. */
+    countdownSeconds: number;
+    /** How many shots to take in a row; guests pick one when there is more than one. */
+    burstCount: number;
+    /** Seconds the results stay up without any interaction before the kiosk resets. */
+    resetAfterSeconds: number;
+    /** SHA-256 of the operator PIN needed to leave kiosk mode, as hex; see `hashPin`. */
+    pinHash: string;
+}
+
+export const COUNTDOWN_OPTIONS = [3, 5, 10];
+export const BURST_OPTIONS = [1, 3, 5];
+export const RESET_OPTIONS = [30, 60, 120, 300];
+
+/** Time between burst shots. */
+export const BURST_INTERVAL_MS = 500;
+/** How long guests have to pick a burst shot before the first one is used. */
+export const BURST_PICK_SECONDS = 8;
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 12;
+/** How many recent photos the attract loop cycles through. */
+export const ATTRACT_IMAGE_LIMIT = 12;
+
+export const DEFAULT_KIOSK_SETTINGS: KioskSettings = {
+    countdownSeconds: 3,
+    burstCount: 1,
+    resetAfterSeconds: 60,
+    pinHash: '',
+};
+
+const KIOSK_SETTINGS_STORAGE_KEY = 'past-forward:kiosk-settings';
+// Kept separately so a reload in the middle of an event stays locked
+const KIOSK_ACTIVE_STORAGE_KEY = 'past-forward:kiosk-active';
+
+/**
+ * Whether a PIN is only digits and between the minimum and maximum length.
+ */
+export function isValidPin(pin: string): boolean {
+    return pin.length >= MIN_PIN_LENGTH && pin.length <= MAX_PIN_LENGTH && /^\d+$/.test(pin);
+}
+
+/**
+ * Hashes a PIN so it isn't stored in plain text.
+ * @returns The SHA-256 digest as hex.
+ */
+export async function hashPin(pin: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pin));
+    return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Whether `pin` matches the stored hash.
+ */
+export async function verifyPin(pin: string, pinHash: string): Promise<boolean> {
+    return !!pinHash && await hashPin(pin) === pinHash;
+}
+
+/**
+ * Asks the browser to go full screen. Browsers only allow this from a user gesture,
+ * and some (e.g. iOS Safari) not at all, so failures are logged and otherwise ignored.
+ */
+export async function enterFullscreen(): Promise<void> {
+    if (typeof document === 'undefined' || document.fullscreenElement || !document.documentElement.requestFullscreen) return;
+    try {
+        await document.documentElement.requestFullscreen();
+    } catch (error) {
+        console.warn("Could not enter full screen:", error);
+    }
+}
+
+export async function exitFullscreen(): Promise<void> {
+    if (typeof document === 'undefined' || !document.fullscreenElement) return;
+    try {
+        await document.exitFullscreen();
+    } catch (error) {
+        console.warn("Could not exit full screen:", error);
+    }
+}
+
+/**
+ * Loads the kiosk settings from local storage.
+ * @returns The stored settings merged over the defaults.
+ */
+export function loadKioskSettings(): KioskSettings {
+    try {
+        const stored = localStorage.getItem(KIOSK_SETTINGS_STORAGE_KEY);
+        return stored ? { ...DEFAULT_KIOSK_SETTINGS, ...JSON.parse(stored) } : DEFAULT_KIOSK_SETTINGS;
+    } catch (error) {
+        console.error("Failed to load kiosk settings:", error);
+        return DEFAULT_KIOSK_SETTINGS;
+    }
+}
+
+/**
+ * Saves the kiosk settings to local storage.
+ * @param settings The settings to persist.
+ */
+export function saveKioskSettings(settings: KioskSettings): void {
+    localStorage.setItem(KIOSK_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Whether kiosk mode was left on, e.g. before the page was reloaded.
+ */
+export function loadKioskActive(): boolean {
+    try {
+        return localStorage.getItem(KIOSK_ACTIVE_STORAGE_KEY) === 'true';
+    } catch {
+        return false;
+    }
+}
+
+export function saveKioskActive(active: boolean): void {
+    if (active) {
+        localStorage.setItem(KIOSK_ACTIVE_STORAGE_KEY, 'true');
+    } else {
+        localStorage.removeItem(KIOSK_ACTIVE_STORAGE_KEY);
+    }
+}
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A rough, real-time approximation of an era's look, drawn over the camera preview
+ * so people can get a feel for it before snapping. Photos are always captured unfiltered.
+ */
+export interface LiveFilter {
+    /** Matches the era it approximates, or 'none'. */
+    id: string;
+    label: string;
+    /** A CSS filter applied to the camera frame. */
+    cssFilter: string;
+    /** A color blended over the frame. */
+    tint?: { color: string; opacity: number; blendMode: GlobalCompositeOperation };
+    /** Lifts the blacks, like faded prints (0-1). */
+    fade?: number;
+    /** Film grain or sensor noise (0-1). */
+    grain?: number;
+    /** Darkened corners (0-1). */
+    vignette?: number;
+    /** A bright on-camera flash hotspot in the middle (0-1). */
+    flash?: number;
+    /** An orange light leak from the top-right corner (0-1). */
+    lightLeak?: number;
+    /** Blocky pixels, like an early digital sensor; the size of one pixel in preview pixels. */
+    pixelSize?: number;
+}
+
+export const LIVE_FILTERS: LiveFilter[] = [
+    { id: 'none', label: 'No filter', cssFilter: 'none' },
+    {
+        id: '1950s',
+        label: '1950s',
+        cssFilter: 'grayscale(1) contrast(1.25) brightness(0.95)',
+        grain: 0.45,
+        vignette: 0.55,
+    },
+    {
+        id: '1960s',
+        label: '1960s',
+        cssFilter: 'saturate(1.3) contrast(1.1) sepia(0.15)',
+        tint: { color: '#3fa7a0', opacity: 0.15, blendMode: 'soft-light' },
+        grain: 0.25,
+        vignette: 0.4,
+    },
+    {
+        id: '1970s',
+        label: '1970s',
+        cssFilter: 'sepia(0.35) saturate(1.2) contrast(0.85) brightness(1.05)',
+        tint: { color: '#ff9a3c', opacity: 0.35, blendMode: 'soft-light' },
+        fade: 0.25,
+        grain: 0.25,
+        vignette: 0.35,
+    },
+    {
+        id: '1980s',
+        label: '1980s',
+        cssFilter: 'saturate(1.35) contrast(1.25) brightness(1.05)',
+        tint: { color: '#ff3ea5', opacity: 0.15, blendMode: 'soft-light' },
+        flash: 0.55,
+        grain: 0.15,
+        vignette: 0.6,
+    },
+    {
+        id: '1990s',
+        label: '1990s',
+        cssFilter: 'saturate(1.15) contrast(1.1) sepia(0.1)',
+        tint: { color: '#9fd36b', opacity: 0.15, blendMode: 'soft-light' },
+        flash: 0.3,
+        lightLeak: 0.5,
+        grain: 0.3,
+        vignette: 0.45,
+    },
+    {
+        id: '2000s',
+        label: '2000s',
+        cssFilter: 'saturate(1.25) contrast(1.15) brightness(1.05)',
+        tint: { color: '#6fa8ff', opacity: 0.12, blendMode: 'soft-light' },
+        pixelSize: 3,
+        grain: 0.1,
+    },
+];
+
+/** The preview is drawn at most this wide; the filters are too soft to need more. */
+export const LIVE_FILTER_MAX_WIDTH = 640;
+
+const NOISE_TILE_SIZE = 128;
+
+export function getLiveFilter(id: string): LiveFilter {
+    return LIVE_FILTERS.find(filter => filter.id === id) ?? LIVE_FILTERS[0];
+}
+
+/**
+ * Steps through the filters, wrapping around at either end.
+ * @param direction 1 for the next filter, -1 for the previous one.
+ */
+export function getAdjacentLiveFilter(id: string, direction: 1 | -1): LiveFilter {
+    const index = LIVE_FILTERS.findIndex(filter => filter.id === id);
+    return LIVE_FILTERS[(Math.max(0, index) + direction + LIVE_FILTERS.length) % LIVE_FILTERS.length];
+}
+
+/**
+ * Creates a tile of gray noise, tiled and shifted every frame to animate the grain.
+ */
+export function createNoiseTile(): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = NOISE_TILE_SIZE;
+    canvas.height = NOISE_TILE_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+    const image = ctx.createImageData(NOISE_TILE_SIZE, NOISE_TILE_SIZE);
+    for (let i = 0; i < image.data.length; i += 4) {
+        const value = 128 + (Math.random() - 0.5) * 255;
+        image.data[i] = value;
+        image.data[i + 1] = value;
+        image.data[i + 2] = value;
+        image.data[i + 3] = 255;
+    }
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+}
+
+/**
+ * Draws one filtered frame.
+ * @param ctx The preview canvas, already sized to `width` × `height`.
+ * @param source The camera frame.
+ * @param noise A tile from `createNoiseTile`.
+ * @param applyCssFilter Whether to apply `cssFilter` through the canvas; browsers without
+ *   canvas filters get it on the canvas element instead.
+ */
+export function drawLiveFilterFrame(
+    ctx: CanvasRenderingContext2D,
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    filter: LiveFilter,
+    noise: HTMLCanvasElement,
+    applyCssFilter: boolean,
+) {
+    ctx.save();
+    if (applyCssFilter) ctx.filter = filter.cssFilter;
+
+    const pixelSize = filter.pixelSize ?? 1;
+    if (pixelSize > 1) {
+        // Draw small, then scale the canvas onto itself without smoothing
+        const smallWidth = Math.ceil(width / pixelSize);
+        const smallHeight = Math.ceil(height / pixelSize);
+        ctx.drawImage(source, 0, 0, smallWidth, smallHeight);
+        ctx.filter = 'none';
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(ctx.canvas, 0, 0, smallWidth, smallHeight, 0, 0, width, height);
+    } else {
+        ctx.drawImage(source, 0, 0, width, height);
+        ctx.filter = 'none';
+    }
+
+    if (filter.tint) {
+        ctx.globalCompositeOperation = filter.tint.blendMode;
+        ctx.globalAlpha = filter.tint.opacity;
+        ctx.fillStyle = filter.tint.color;
+        ctx.fillRect(0, 0, width, height);
+        ctx.globalAlpha = 1;
+    }
+
+    if (filter.fade) {
+        ctx.globalCompositeOperation = 'lighten';
+        ctx.fillStyle = `rgba(70, 55, 45, ${filter.fade})`;
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    const radius = Math.hypot(width, height) / 2;
+
+    if (filter.flash) {
+        const gradient = ctx.createRadialGradient(width / 2, height * 0.45, 0, width / 2, height * 0.45, radius * 0.7);
+        gradient.addColorStop(0, `rgba(255, 255, 255, ${filter.flash * 0.6})`);
+        gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+        ctx.globalCompositeOperation = 'screen';
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    if (filter.lightLeak) {
+        const gradient = ctx.createRadialGradient(width, 0, 0, width, 0, radius);
+        gradient.addColorStop(0, `rgba(255, 120, 40, ${filter.lightLeak})`);
+        gradient.addColorStop(0.5, `rgba(255, 60, 30, ${filter.lightLeak * 0.3})`);
+        gradient.addColorStop(1, 'rgba(255, 60, 30, 0)');
+        ctx.globalCompositeOperation = 'screen';
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    if (filter.grain) {
+        const pattern = ctx.createPattern(noise, 'repeat');
+        if (pattern) {
+            // A new offset every frame makes the grain crawl like film
+            ctx.translate(Math.random() * NOISE_TILE_SIZE, Math.random() * NOISE_TILE_SIZE);
+            ctx.globalCompositeOperation = 'overlay';
+            ctx.globalAlpha = filter.grain;
+            ctx.fillStyle = pattern;
+            ctx.fillRect(-NOISE_TILE_SIZE, -NOISE_TILE_SIZE, width + NOISE_TILE_SIZE, height + NOISE_TILE_SIZE);
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            ctx.globalAlpha = 1;
+        }
+    }
+
+    if (filter.vignette) {
+        const gradient = ctx.createRadialGradient(width / 2, height / 2, radius * 0.45, width / 2, height / 2, radius);
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+        gradient.addColorStop(1, `rgba(0, 0, 0, ${filter.vignette})`);
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    ctx.restore();
+}
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * The named variables a prompt template can reference as `{name}`.
+ */
+export interface PromptVariables {
+    era: string;
+    subjectType: string;
+    photoMedium: string;
+    region: string;
+    mood: string;
+}
+
+/**
+ * A reusable style fragment appended to prompts (e.g., "Polaroid", "VHS still").
+ * Fragments are templates themselves and may reference any prompt variable.
+ */
+export interface StyleModifier {
+    id: string;
+    label: string;
+    fragment: string;
+}
+
+/**
+ * User-tunable prompt options applied on top of each era's own templates.
+ */
+export interface PromptSettings {
+    subjectType: string;
+    /** Overrides the era's photo medium when set. */
+    photoMedium: string;
+    region: string;
+    mood: string;
+    /** Modifier ids applied to every era, in addition to each era's own modifiers. */
+    modifierIds: string[];
+}
+
+export const STYLE_MODIFIERS: StyleModifier[] = [
+    { id: 'polaroid', label: 'Polaroid', fragment: 'Render it as a Polaroid instant photo with soft, slightly faded colors and gentle vignetting.' },
+    { id: 'kodachrome', label: 'Kodachrome slide', fragment: 'Render it as a Kodachrome slide with rich, saturated colors, deep shadows and fine film grain.' },
+    { id: 'vhs-still', label: 'VHS still', fragment: 'Render it as a paused VHS still with scan lines, color bleed and soft analog focus.' },
+    { id: 'black-and-white', label: 'Black & white film', fragment: 'Render it as a black-and-white film photograph with visible silver grain.' },
+    { id: 'disposable', label: 'Disposable camera', fragment: 'Render it as a disposable camera snapshot with harsh on-camera flash and slightly off colors.' },
+    { id: 'early-digital', label: 'Early digital', fragment: 'Render it as an early digital camera photo with low dynamic range, slight noise and a date-stamp look.' },
+];
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+    subjectType: 'people',
+    photoMedium: '',
+    region: '',
+    mood: '',
+    modifierIds: [],
+};
+
+const DEFAULT_PHOTO_MEDIUM = 'photograph';
+// Templates use {subjectType} outside optional sections, so it can never be empty
+const DEFAULT_SUBJECT_TYPE = 'people';
+const PROMPT_SETTINGS_STORAGE_KEY = 'past-forward:prompt-settings';
+
+/**
+ * Renders a prompt template.
+ *
+ * `{name}` is replaced by the variable's value. Text wrapped in `[...]` is an optional
+ * section: it is dropped entirely if any variable inside it is empty, so templates can
+ * say `[ in {region}]` without leaving a dangling "in" when no region is set.
+ * @param template The template string.
+ * @param variables The values to substitute.
+ * @returns The rendered text.
+ */
+export function renderTemplate(template: string, variables: Partial<PromptVariables>): string {
+    const lookup = (name: string) => (variables as Record<string, string | undefined>)[name]?.trim() ?? '';
+
+    const withOptionalSections = template.replace(/\[([^\[\]]*)\]/g, (_, section: string) => {
+        const names = [...section.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+        return names.every(name => lookup(name)) ? section : '';
+    });
+
+    return withOptionalSections
+        .replace(/\{(\w+)\}/g, (_, name: string) => lookup(name))
+        .replace(/\s{2,}/g, ' ')
+        .trim();
+}
+
+/**
+ * Composes a rendered template with the fragments of the given modifiers.
+ * @param template The base template.
+ * @param variables The values to substitute.
+ * @param modifierIds The modifiers to append, in order; unknown and duplicate ids are ignored.
+ * @returns The complete prompt.
+ */
+export function composePrompt(template: string, variables: Partial<PromptVariables>, modifierIds: string[] = []): string {
+    const fragments = [...new Set(modifierIds)]
+        .map(id => STYLE_MODIFIERS.find(modifier => modifier.id === id))
+        .filter((modifier): modifier is StyleModifier => !!modifier)
+        .map(modifier => renderTemplate(modifier.fragment, variables));
+
+    return [renderTemplate(template, variables), ...fragments].join(' ');
+}
+
+/**
+ * Builds the variables for a given era label, era medium and the user's settings.
+ */
+export function buildPromptVariables(eraLabel: string, eraPhotoMedium: string | undefined, settings: PromptSettings): PromptVariables {
+    return {
+        era: eraLabel,
+        subjectType: settings.subjectType.trim() || DEFAULT_SUBJECT_TYPE,
+        photoMedium: settings.photoMedium || eraPhotoMedium || DEFAULT_PHOTO_MEDIUM,
+        region: settings.region,
+        mood: settings.mood,
+    };
+}
+
+/**
+ * Loads the user's prompt settings from local storage.
+ * @returns The stored settings merged over the defaults.
+ */
+export function loadPromptSettings(): PromptSettings {
+    try {
+        const stored = localStorage.getItem(PROMPT_SETTINGS_STORAGE_KEY);
+        return stored ? { ...DEFAULT_PROMPT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROMPT_SETTINGS;
+    } catch (error) {
+        console.error("Failed to load prompt settings:", error);
+        return DEFAULT_PROMPT_SETTINGS;
+    }
+}
+
+/**
+ * Saves the user's prompt settings to local storage.
+ * @param settings The settings to persist.
+ */
+export function savePromptSettings(settings: PromptSettings): void {
+    localStorage.setItem(PROMPT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
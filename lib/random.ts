@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Hashes a string into a 32-bit unsigned integer (FNV-1a).
+ * @param value The string to hash.
+ * @returns A stable numeric hash suitable for seeding a random generator.
+ */
+export function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Picks a fresh seed for `createSeededRandom`.
+ * @returns A random 32-bit unsigned integer.
+ */
+export function createRandomSeed(): number {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+/**
+ * Creates a deterministic pseudo-random generator (mulberry32).
+ * @param seed The seed; the same seed always yields the same sequence.
+ * @returns A function returning numbers in [0, 1), like Math.random.
+ */
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
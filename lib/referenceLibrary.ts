@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { REFERENCES_STORE, createRecordId, withStore } from './database';
+import type { Era } from './eraCatalog';
+
+/**
+ * A photo the user added to an era's reference library.
+ */
+export interface ReferenceImage {
+    id: string;
+    eraId: string;
+    name: string;
+    dataUrl: string;
+    /** Disabled references stay in the library but are not sent. */
+    enabled: boolean;
+    createdAt: number;
+}
+
+/** The user's reference images, by era id. */
+export type ReferenceLibrary = Record<string, ReferenceImage[]>;
+
+/** Every reference is another image part, so cap them to keep requests small. */
+export const MAX_REFERENCE_IMAGES = 3;
+
+// Catalog references are fetched once and kept as data URLs
+const catalogImageCache = new Map<string, Promise<string>>();
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error('Failed to read image'));
+        reader.readAsDataURL(blob);
+    });
+}
+
+async function fetchAsDataUrl(url: string): Promise<string> {
+    if (url.startsWith('data:')) return url;
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch reference image ${url} (${response.status})`);
+    }
+    return blobToDataUrl(await response.blob());
+}
+
+function loadCatalogImage(url: string): Promise<string> {
+    let cached = catalogImageCache.get(url);
+    if (!cached) {
+        cached = fetchAsDataUrl(url);
+        // Let a failed fetch be retried next time
+        cached.catch(() => catalogImageCache.delete(url));
+        catalogImageCache.set(url, cached);
+    }
+    return cached;
+}
+
+/**
+ * Builds the prompt sentence that tells the model how to use the reference images.
+ * @param count How many reference images follow the source photos.
+ * @returns The instructions, or an empty string when there are none.
+ */
+export function buildReferenceInstructions(count: number): string {
+    if (count === 0) return '';
+    const which = count === 1 ? 'The last image is a real photo' : `The last ${count} images are real photos`;
+    return `${which} from the era, provided only as a style reference. Match their film grain, color palette, lighting and framing, but do not copy their people, faces or content.`;
+}
+
+/**
+ * Collects the reference images to send for an era: the catalog's own, then the user's enabled ones.
+ * Catalog images that fail to load are skipped rather than failing the generation.
+ * @param era The era being generated.
+ * @param library The user's reference library.
+ * @returns Up to `MAX_REFERENCE_IMAGES` data URLs.
+ */
+export async function resolveReferenceImages(era: Era, library: ReferenceLibrary): Promise<string[]> {
+    // Eras saved in older sessions predate reference images
+    const catalogImages = await Promise.all((era.referenceImages ?? []).map(url => loadCatalogImage(url).catch(error => {
+        console.warn(`Skipping reference image for ${era.id}:`, error);
+        return null;
+    })));
+    const userImages = (library[era.id] ?? []).filter(image => image.enabled).map(image => image.dataUrl);
+    return [...catalogImages.filter((url): url is string => !!url), ...userImages].slice(0, MAX_REFERENCE_IMAGES);
+}
+
+/**
+ * Creates a new, enabled reference image record.
+ * @param eraId The era it belongs to.
+ * @param name A display name, usually the file name.
+ * @param dataUrl The image.
+ */
+export function createReferenceImage(eraId: string, name: string, dataUrl: string): ReferenceImage {
+    return { id: createRecordId(), eraId, name, dataUrl, enabled: true, createdAt: Date.now() };
+}
+
+/**
+ * Loads every stored reference image, grouped by era in the order they were added.
+ */
+export async function loadReferenceLibrary(): Promise<ReferenceLibrary> {
+    const images = await withStore<ReferenceImage[]>(REFERENCES_STORE, 'readonly', store => store.getAll());
+    const library: ReferenceLibrary = {};
+    for (const image of images.sort((a, b) => a.createdAt - b.createdAt)) {
+        (library[image.eraId] ??= []).push(image);
+    }
+    return library;
+}
+
+/**
+ * Inserts or replaces a reference image.
+ * @param image The image to store.
+ */
+export async function saveReferenceImage(image: ReferenceImage): Promise<void> {
+    await withStore(REFERENCES_STORE, 'readwrite', store => store.put(image));
+}
+
+/**
+ * Deletes a stored reference image.
+ * @param id The image id.
+ */
+export async function deleteReferenceImage(id: string): Promise<void> {
+    await withStore(REFERENCES_STORE, 'readwrite', store => store.delete(id));
+}
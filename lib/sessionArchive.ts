@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { strToU8, zipSync } from 'fflate';
+import type { Zippable } from 'fflate';
+import { getFavoriteIndex } from './variants';
+import type { Era } from './eraCatalog';
+import type { PromptSettings } from './promptTemplate';
+import type { SubjectSettings } from './subjects';
+import type { CardCaption } from './captions';
+import type { GeneratedImage } from '../types';
+
+export interface SessionArchiveInput {
+    name: string;
+    sourceImage: string;
+    /** The eras in display order. */
+    eras: Era[];
+    results: Record<string, GeneratedImage>;
+    promptSettings: PromptSettings;
+    /** Who is in the photo; the second person's photo is saved next to the source. */
+    subject?: SubjectSettings;
+    /** The user's caption and date stamp edits, by era id. */
+    captions?: Record<string, CardCaption>;
+    /** The rendered album, if every era had an image to put in it. */
+    album?: { blob: Blob; filename: string };
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+/**
+ * Decodes a base64 data URL into its bytes and a file extension.
+ */
+function decodeDataUrl(dataUrl: string): { bytes: Uint8Array; extension: string } {
+    const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+    if (!match) {
+        throw new Error('Expected a base64 data URL');
+    }
+    const [, mimeType, base64] = match;
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return { bytes, extension: EXTENSIONS[mimeType] ?? 'bin' };
+}
+
+/**
+ * Packages a session into a ZIP: the source photo(s), every generated variant, the album
+ * and a `manifest.json` describing how each image was made.
+ * @param input The session contents.
+ * @returns The ZIP file.
+ */
+export async function createSessionArchive(input: SessionArchiveInput): Promise<Blob> {
+    // Images are already compressed, so store them as-is and only deflate the manifest
+    const files: Zippable = {};
+
+    const source = decodeDataUrl(input.sourceImage);
+    const sourceFile = `source.${source.extension}`;
+    files[sourceFile] = [source.bytes, { level: 0 }];
+
+    let companionFile: string | null = null;
+    if (input.subject?.mode === 'side-by-side' && input.subject.companionImage) {
+        const companion = decodeDataUrl(input.subject.companionImage);
+        companionFile = `companion.${companion.extension}`;
+        files[companionFile] = [companion.bytes, { level: 0 }];
+    }
+
+    const eras = input.eras.map(era => {
+        const result = input.results[era.id];
+        const variants = result?.variants ?? [];
+        const images = variants.map((variant, index) => {
+            const { bytes, extension } = decodeDataUrl(variant.url);
+            const file = `images/${era.id}${variants.length > 1 ? `-${index + 1}` : ''}.${extension}`;
+            files[file] = [bytes, { level: 0 }];
+            return {
+                file,
+                prompt: variant.prompt,
+                usedFallback: variant.usedFallback,
+                provider: variant.provider,
+                model: variant.model ?? null,
+                referenceCount: variant.referenceCount ?? 0,
+                generatedAt: new Date(variant.generatedAt).toISOString(),
+            };
+        });
+        return {
+            id: era.id,
+            label: era.label,
+            caption: era.caption,
+            userCaption: input.captions?.[era.id]?.text?.trim() || null,
+            dateStamp: input.captions?.[era.id]?.date?.trim() || null,
+            favorite: result && images.length > 0 ? images[getFavoriteIndex(result)].file : null,
+            error: result?.status === 'error' ? result.error ?? null : null,
+            images,
+        };
+    });
+
+    if (input.album) {
+        files[input.album.filename] = [new Uint8Array(await input.album.blob.arrayBuffer()), { level: 0 }];
+    }
+
+    const manifest = {
+        name: input.name,
+        exportedAt: new Date().toISOString(),
+        sourceImage: sourceFile,
+        subject: {
+            mode: input.subject?.mode ?? 'single',
+            people: input.subject?.mode === 'group' ? input.subject.markers.map(({ name, x, y }) => ({ name, x, y })) : [],
+            companionImage: companionFile,
+        },
+        album: input.album?.filename ?? null,
+        promptSettings: input.promptSettings,
+        eras,
+    };
+    files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+
+    return new Blob([zipSync(files)], { type: 'application/zip' });
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { SESSIONS_STORE, createRecordId, withStore } from './database';
+import type { Session } from '../types';
+
+/**
+ * Generates a unique id for a new session.
+ */
+export function createSessionId(): string {
+    return createRecordId();
+}
+
+/**
+ * Inserts or replaces a session.
+ * @param session The session to store.
+ */
+export async function saveSession(session: Session): Promise<void> {
+    await withStore(SESSIONS_STORE, 'readwrite', store => store.put(session));
+}
+
+/**
+ * Loads a single session.
+ * @param id The session id.
+ * @returns The session, or undefined if it does not exist.
+ */
+export async function getSession(id: string): Promise<Session | undefined> {
+    return withStore<Session | undefined>(SESSIONS_STORE, 'readonly', store => store.get(id));
+}
+
+/**
+ * Lists all stored sessions, most recently updated first.
+ */
+export async function listSessions(): Promise<Session[]> {
+    const sessions = await withStore<Session[]>(SESSIONS_STORE, 'readonly', store => store.getAll());
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Renames a stored session.
+ * @param id The session id.
+ * @param name The new name.
+ */
+export async function renameSession(id: string, name: string): Promise<void> {
+    const session = await getSession(id);
+    if (!session) {
+        throw new Error(`Session "${id}" not found`);
+    }
+    await saveSession({ ...session, name, updatedAt: Date.now() });
+}
+
+/**
+ * Deletes a stored session.
+ * @param id The session id.
+ */
+export async function deleteSession(id: string): Promise<void> {
+    await withStore(SESSIONS_STORE, 'readwrite', store => store.delete(id));
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * How many people the source photo holds and how they should be combined.
+ * - `single`: one person, the original behaviour.
+ * - `group`: a group photo; everyone is restyled together.
+ * - `side-by-side`: two separate photos, composited into one era photo.
+ */
+export type SubjectMode = 'single' | 'group' | 'side-by-side';
+
+/**
+ * A person the user marked on a group photo.
+ */
+export interface SubjectMarker {
+    id: string;
+    /** Horizontal position as a fraction of the photo's width. */
+    x: number;
+    /** Vertical position as a fraction of the photo's height. */
+    y: number;
+    name: string;
+}
+
+export interface SubjectSettings {
+    mode: SubjectMode;
+    /** People marked on the source photo, in group mode. */
+    markers: SubjectMarker[];
+    /** The second person's photo, in side-by-side mode. */
+    companionImage?: string;
+}
+
+export const SUBJECT_MODES: { id: SubjectMode; label: string }[] = [
+    { id: 'single', label: 'Single person' },
+    { id: 'group', label: 'Group photo' },
+    { id: 'side-by-side', label: 'Side by side' },
+];
+
+export const DEFAULT_SUBJECT_SETTINGS: SubjectSettings = {
+    mode: 'single',
+    markers: [],
+};
+
+/**
+ * Describes a marker's position in words, e.g. "top left" or "center".
+ */
+export function describeMarkerPosition(marker: Pick<SubjectMarker, 'x' | 'y'>): string {
+    const horizontal = marker.x < 1 / 3 ? 'left' : marker.x > 2 / 3 ? 'right' : 'center';
+    const vertical = marker.y < 1 / 3 ? 'top' : marker.y > 2 / 3 ? 'bottom' : '';
+    if (!vertical) return horizontal;
+    return horizontal === 'center' ? vertical : `${vertical} ${horizontal}`;
+}
+
+/**
+ * Builds the extra prompt sentences for group and side-by-side photos.
+ * Both the primary and the fallback prompt get the same instructions.
+ * @param settings The subject settings; single-person photos need no extra instructions.
+ * @returns The instructions, or an empty string.
+ */
+export function buildSubjectInstructions(settings: SubjectSettings): string {
+    if (settings.mode === 'group') {
+        // Left to right reads the way people describe a photo
+        const marked = [...settings.markers].sort((a, b) => a.x - b.x);
+        const people = marked.length > 0
+            ? ` There are ${marked.length} people to keep: ${marked.map(marker => `${marker.name.trim() || 'a person'} (${describeMarkerPosition(marker)})`).join(', ')}.`
+            : '';
+        return `This is a group photo.${people} Restyle every person in it consistently for the same era, so they look like they were photographed together at the same moment. Keep each person recognizable, with their own face, pose and place in the picture, and do not add or remove anyone.`;
+    }
+    if (settings.mode === 'side-by-side') {
+        return 'Two photos are provided, each showing a different person. Combine them into a single photograph of both people standing side by side, the person from the first photo on the left and the person from the second on the right. Restyle both consistently for the same era and keep each person recognizable.';
+    }
+    return '';
+}
+
+/**
+ * Lists the source images to send for a photo: the photo itself, plus the companion in side-by-side mode.
+ * @param sourceImage The main photo's data URL.
+ * @param settings The subject settings.
+ */
+export function getSubjectImages(sourceImage: string, settings: SubjectSettings): string[] {
+    return settings.mode === 'side-by-side' && settings.companionImage
+        ? [sourceImage, settings.companionImage]
+        : [sourceImage];
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getErrorCode } from '../services/generationErrors';
+import type { DecadeImageResult } from '../services/geminiService';
+import type { GeneratedImage, ImageVariant } from '../types';
+
+/**
+ * Turns a generation result into a stored variant, stamped with the current time.
+ */
+export function toImageVariant(result: DecadeImageResult): ImageVariant {
+    return {
+        url: result.imageUrl,
+        prompt: result.prompt,
+        usedFallback: result.usedFallback,
+        provider: result.provider,
+        model: result.model,
+        referenceCount: result.referenceCount,
+        generatedAt: Date.now(),
+    };
+}
+
+/**
+ * Records a successful generation, keeping earlier variants.
+ * @param image The era's current state, if any.
+ * @param variant The newly generated variant.
+ */
+export function withVariant(image: GeneratedImage | undefined, variant: ImageVariant): GeneratedImage {
+    return { ...image, status: 'done', error: undefined, errorCode: undefined, variants: [...(image?.variants ?? []), variant] };
+}
+
+/**
+ * Records a failed generation. Earlier variants are still usable, so the card only shows
+ * the error state when there are none; otherwise the error is kept for a badge over them.
+ * @param image The era's current state, if any.
+ * @param error What the generation threw.
+ */
+export function withGenerationError(image: GeneratedImage | undefined, error: unknown): GeneratedImage {
+    const errorCode = getErrorCode(error);
+    const message = errorCode === 'CANCELLED'
+        ? 'Generation was cancelled.'
+        : error instanceof Error ? error.message : "An unknown error occurred.";
+    const variants = image?.variants ?? [];
+    return { ...image, status: variants.length ? 'done' : 'error', error: message, errorCode, variants };
+}
+
+/**
+ * Returns the index of the variant used for albums and downloads.
+ * @param image The era's generated image state.
+ * @returns The favorite's index, the latest variant's index if none was picked, or -1 if there are no variants.
+ */
+export function getFavoriteIndex(image: GeneratedImage | undefined): number {
+    if (!image || image.variants.length === 0) return -1;
+    const { favoriteIndex } = image;
+    return favoriteIndex !== undefined && favoriteIndex < image.variants.length
+        ? favoriteIndex
+        : image.variants.length - 1;
+}
+
+/**
+ * Returns the variant used for albums and downloads.
+ * @param image The era's generated image state.
+ */
+export function getFavoriteVariant(image: GeneratedImage | undefined): ImageVariant | undefined {
+    const index = getFavoriteIndex(image);
+    return index === -1 ? undefined : image!.variants[index];
+}
+
+/**
+ * Brings a stored result up to date. Sessions saved before variants existed kept a single `url`.
+ * @param stored The result as read from storage.
+ */
+export function normalizeGeneratedImage(stored: GeneratedImage & { url?: string; prompt?: string; usedFallback?: boolean; provider?: string; generatedAt?: number }): GeneratedImage {
+    if (Array.isArray(stored.variants)) return stored;
+    const { url, prompt, usedFallback, provider, generatedAt, ...rest } = stored;
+    return {
+        ...rest,
+        variants: url ? [{ url, prompt: prompt ?? '', usedFallback: !!usedFallback, provider: provider ?? 'unknown', generatedAt: generatedAt ?? 0 }] : [],
+    };
+}
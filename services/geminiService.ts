@@ -2,144 +2,140 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI } from "@google/genai";
-import type { GenerateContentResponse } from "@google/genai";
+import { isAbortError } from "../lib/abort";
+import { InvalidInputError, NoImageError, SafetyBlockedError, toGenerationError } from "./generationErrors";
+import type { ImageGenerationProvider, InlineImage } from "./imageProvider";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createMockProvider } from "./providers/mockProvider";
+import { buildEraPrompts } from "../lib/eraCatalog";
+import type { Era } from "../lib/eraCatalog";
+import { DEFAULT_PROMPT_SETTINGS } from "../lib/promptTemplate";
+import type { PromptSettings } from "../lib/promptTemplate";
+import { DEFAULT_SUBJECT_SETTINGS, getSubjectImages } from "../lib/subjects";
+import type { SubjectSettings } from "../lib/subjects";
+import { buildReferenceInstructions } from "../lib/referenceLibrary";
 
 const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-
-// --- Helper Functions ---
+const IMAGE_PROVIDER = process.env.IMAGE_PROVIDER;
 
 /**
- * Creates a fallback prompt to use when the primary one is blocked.
- * @param decade The decade string (e.g., "1950s").
- * @returns The fallback prompt string.
+ * Picks the provider named by the IMAGE_PROVIDER setting ("gemini" or "mock").
+ * When no provider is configured, Gemini is used if an API key is available and
+ * the offline mock provider otherwise.
  */
-function getFallbackPrompt(decade: string): string {
-    return `Create a photograph from this image as if it were taken in the ${decade}. The new photograph should capture the distinct fashion, hairstyles, background, and overall atmosphere of that time period. Ensure the final image is a clear photograph that looks authentic to the era.`;
+function createConfiguredProvider(): ImageGenerationProvider {
+    const providerId = IMAGE_PROVIDER || (API_KEY ? 'gemini' : 'mock');
+    switch (providerId) {
+        case 'gemini':
+            return createGeminiProvider(API_KEY);
+        case 'mock':
+            return createMockProvider();
+        default:
+            throw new Error(`Unknown IMAGE_PROVIDER "${providerId}". Expected "gemini" or "mock".`);
+    }
 }
 
+let activeProvider: ImageGenerationProvider | null = null;
+
 /**
- * Extracts the decade (e.g., "1950s") from a prompt string.
- * @param prompt The original prompt.
- * @returns The decade string or null if not found.
+ * Returns the provider that `generateDecadeImage` routes through, creating it on first use.
  */
-function extractDecade(prompt: string): string | null {
-    const match = prompt.match(/(\d{4}s)/);
-    return match ? match[1] : null;
+export function getImageProvider(): ImageGenerationProvider {
+    if (!activeProvider) {
+        activeProvider = createConfiguredProvider();
+        console.log(`Using "${activeProvider.id}" image generation provider.`);
+    }
+    return activeProvider;
 }
 
+
 /**
- * Processes the Gemini API response, extracting the image or throwing an error if none is found.
- * @param response The response from the generateContent call.
- * @returns A data URL string for the generated image.
+ * The outcome of a successful `generateDecadeImage` call.
  */
-function processGeminiResponse(response: GenerateContentResponse): string {
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        return `data:${mimeType};base64,${data}`;
-    }
-
-    const textResponse = response.text;
-    console.error("API did not return an image. Response:", textResponse);
-    throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+export interface DecadeImageResult {
+    imageUrl: string;
+    /** The prompt that produced the image. */
+    prompt: string;
+    /** Whether the primary prompt was rejected and the fallback prompt was used instead. */
+    usedFallback: boolean;
+    /** The id of the provider that produced the image. */
+    provider: string;
+    /** The model that produced the image. */
+    model: string;
+    /** How many reference images were sent with the source. */
+    referenceCount: number;
 }
 
 /**
- * A wrapper for the Gemini API call that includes a retry mechanism for internal server errors.
- * @param imagePart The image part of the request payload.
- * @param textPart The text part of the request payload.
- * @returns The GenerateContentResponse from the API.
+ * Splits a base64 image data URL into the parts a provider request needs.
  */
-async function callGeminiWithRetry(imagePart: object, textPart: object): Promise<GenerateContentResponse> {
-    const maxRetries = 3;
-    const initialDelay = 1000;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-            return await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: { parts: [imagePart, textPart] },
-            });
-        } catch (error) {
-            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, error);
-            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-            const isInternalError = errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL');
-
-            if (isInternalError && attempt < maxRetries) {
-                const delay = initialDelay * Math.pow(2, attempt - 1);
-                console.log(`Internal error detected. Retrying in ${delay}ms...`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                continue;
-            }
-            throw error; // Re-throw if not a retriable error or if max retries are reached.
-        }
-    }
-    // This should be unreachable due to the loop and throw logic above.
-    throw new Error("Gemini API call failed after all retries.");
+function toInlineImage(imageDataUrl: string): InlineImage {
+  const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
+  if (!match) {
+    throw new InvalidInputError("Invalid image data URL format. Expected 'data:image/...;base64,...'");
+  }
+  const [, mimeType, data] = match;
+  return { mimeType, data };
 }
 
-
 /**
- * Generates a decade-styled image from a source image and a prompt.
+ * Generates an era-styled image from a source image using the era's prompt templates.
  * It includes a fallback mechanism for prompts that might be blocked in certain regions.
  * @param imageDataUrl A data URL string of the source image (e.g., 'data:image/png;base64,...').
- * @param prompt The prompt to guide the image generation.
- * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
+ * @param era The catalog era whose prompt and fallback prompt guide the generation.
+ * @param settings The user's prompt variables and modifiers, applied to both prompts.
+ * @param options.signal An optional signal that cancels the generation; the promise then rejects with an AbortError.
+ * @param options.subject Group photo markers or a second person to composite; a single person by default.
+ * @param options.referenceImages Data URLs of era photos whose grain, palette and framing the result should match.
+ * @returns A promise that resolves to the generated image's data URL and the prompt that produced it.
  */
-export async function generateDecadeImage(imageDataUrl: string, prompt: string): Promise<string> {
-  const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-  if (!match) {
-    throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
-  }
-  const [, mimeType, base64Data] = match;
+export async function generateDecadeImage(
+    imageDataUrl: string,
+    era: Era,
+    settings: PromptSettings = DEFAULT_PROMPT_SETTINGS,
+    { signal, subject = DEFAULT_SUBJECT_SETTINGS, referenceImages: referenceUrls = [] }: { signal?: AbortSignal; subject?: SubjectSettings; referenceImages?: string[] } = {},
+): Promise<DecadeImageResult> {
+    if (subject.mode === 'side-by-side' && !subject.companionImage) {
+        throw new InvalidInputError("Side-by-side mode needs a photo of the second person.");
+    }
+    const images = getSubjectImages(imageDataUrl, subject).map(toInlineImage);
+    const referenceImages = referenceUrls.map(toInlineImage);
+    const referenceCount = referenceImages.length;
 
-    const imagePart = {
-        inlineData: { mimeType, data: base64Data },
-    };
+    const provider = getImageProvider();
+    const eraPrompts = buildEraPrompts(era, settings, subject);
+    const referenceInstructions = buildReferenceInstructions(referenceCount);
+    const withReferences = (text: string) => referenceInstructions ? `${text} ${referenceInstructions}` : text;
+    const prompt = withReferences(eraPrompts.prompt);
+    const fallbackPrompt = withReferences(eraPrompts.fallbackPrompt);
 
     // --- First attempt with the original prompt ---
     try {
         console.log("Attempting generation with original prompt...");
-        const textPart = { text: prompt };
-        const response = await callGeminiWithRetry(imagePart, textPart);
-        return processGeminiResponse(response);
+        const imageUrl = await provider.generateImage({ images, referenceImages, prompt, signal });
+        return { imageUrl, prompt, usedFallback: false, provider: provider.id, model: provider.model, referenceCount };
     } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        const isNoImageError = errorMessage.includes("The AI model responded with text instead of an image");
+        if (isAbortError(error)) throw error; // Cancellation is not a failure; don't fall back or wrap it.
 
-        if (isNoImageError) {
-            console.warn("Original prompt was likely blocked. Trying a fallback prompt.");
-            const decade = extractDecade(prompt);
-            if (!decade) {
-                console.error("Could not extract decade from prompt, cannot use fallback.");
-                throw error; // Re-throw the original "no image" error.
-            }
+        // A text-only answer or a safety block usually means the wording was refused, so rephrase
+        const isPromptRejected = error instanceof NoImageError || error instanceof SafetyBlockedError;
 
+        if (isPromptRejected) {
+            console.warn("Original prompt was likely blocked. Trying a fallback prompt.", error);
             // --- Second attempt with the fallback prompt ---
             try {
-                const fallbackPrompt = getFallbackPrompt(decade);
-                console.log(`Attempting generation with fallback prompt for ${decade}...`);
-                const fallbackTextPart = { text: fallbackPrompt };
-                const fallbackResponse = await callGeminiWithRetry(imagePart, fallbackTextPart);
-                return processGeminiResponse(fallbackResponse);
+                console.log(`Attempting generation with fallback prompt for ${era.id}...`);
+                const imageUrl = await provider.generateImage({ images, referenceImages, prompt: fallbackPrompt, signal });
+                return { imageUrl, prompt: fallbackPrompt, usedFallback: true, provider: provider.id, model: provider.model, referenceCount };
             } catch (fallbackError) {
+                if (isAbortError(fallbackError)) throw fallbackError;
                 console.error("Fallback prompt also failed.", fallbackError);
-                const finalErrorMessage = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
-                throw new Error(`The AI model failed with both original and fallback prompts. Last error: ${finalErrorMessage}`);
+                throw toGenerationError(fallbackError);
             }
         } else {
-            // This is for other errors, like a final internal server error after retries.
+            // This is for other errors, like a final server error after retries.
             console.error("An unrecoverable error occurred during image generation.", error);
-            throw new Error(`The AI model failed to generate an image. Details: ${errorMessage}`);
+            throw toGenerationError(error);
         }
     }
 }
\ No newline at end of file
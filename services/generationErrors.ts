@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { isAbortError } from '../lib/abort';
+
+/**
+ * Machine-readable codes for everything that can go wrong while generating an image.
+ */
+export type GenerationErrorCode =
+    | 'SAFETY_BLOCKED'
+    | 'NO_IMAGE'
+    | 'RATE_LIMITED'
+    | 'SERVER_ERROR'
+    | 'INVALID_INPUT'
+    | 'AUTH'
+    | 'NETWORK'
+    | 'CANCELLED'
+    | 'UNKNOWN';
+
+/** A safety rating reported by the model, kept as plain data so it can be stored. */
+export interface SafetyRatingInfo {
+    category?: string;
+    probability?: string;
+    blocked?: boolean;
+}
+
+/**
+ * Base class for generation failures. `retryable` says whether trying the same request
+ * again may succeed; the subclasses describe the specific failure.
+ */
+export class GenerationError extends Error {
+    readonly code: GenerationErrorCode;
+    readonly retryable: boolean;
+
+    constructor(code: GenerationErrorCode, message: string, options: { retryable?: boolean; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'GenerationError';
+        this.code = code;
+        this.retryable = options.retryable ?? false;
+    }
+}
+
+/** The prompt or the generated image was blocked by the model's safety filters. */
+export class SafetyBlockedError extends GenerationError {
+    readonly finishReason?: string;
+    readonly blockReason?: string;
+    readonly safetyRatings: SafetyRatingInfo[];
+
+    constructor(message: string, details: { finishReason?: string; blockReason?: string; safetyRatings?: SafetyRatingInfo[] } = {}) {
+        super('SAFETY_BLOCKED', message);
+        this.name = 'SafetyBlockedError';
+        this.finishReason = details.finishReason;
+        this.blockReason = details.blockReason;
+        this.safetyRatings = details.safetyRatings ?? [];
+    }
+}
+
+/** The model answered, but with text instead of an image. */
+export class NoImageError extends GenerationError {
+    readonly responseText?: string;
+    readonly finishReason?: string;
+
+    constructor(responseText?: string, finishReason?: string) {
+        super('NO_IMAGE', `The AI model responded with text instead of an image: "${responseText || 'No text response received.'}"`, { retryable: true });
+        this.name = 'NoImageError';
+        this.responseText = responseText;
+        this.finishReason = finishReason;
+    }
+}
+
+/** The API quota or rate limit was hit (HTTP 429). */
+export class RateLimitError extends GenerationError {
+    /** How long the server asked us to wait before retrying, when it said. */
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+        super('RATE_LIMITED', message, { retryable: true, cause: options.cause });
+        this.name = 'RateLimitError';
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+/** The service failed on its side (HTTP 5xx); the same request may succeed later. */
+export class TransientServerError extends GenerationError {
+    readonly status: number;
+    /** How long the server asked us to wait before retrying, when it said. */
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, status: number, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+        super('SERVER_ERROR', message, { retryable: true, cause: options.cause });
+        this.name = 'TransientServerError';
+        this.status = status;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+/** The request itself was rejected, e.g. an unsupported or corrupt source image. */
+export class InvalidInputError extends GenerationError {
+    constructor(message: string, options: { cause?: unknown } = {}) {
+        super('INVALID_INPUT', message, options);
+        this.name = 'InvalidInputError';
+    }
+}
+
+/** The API key is missing, invalid or lacks access to the model. */
+export class AuthError extends GenerationError {
+    constructor(message: string, options: { cause?: unknown } = {}) {
+        super('AUTH', message, options);
+        this.name = 'AuthError';
+    }
+}
+
+/** The service could not be reached at all. */
+export class NetworkError extends GenerationError {
+    constructor(message: string, options: { cause?: unknown } = {}) {
+        super('NETWORK', message, { retryable: true, cause: options.cause });
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * Returns the machine-readable code for any caught value.
+ * @param error The caught value.
+ */
+export function getErrorCode(error: unknown): GenerationErrorCode {
+    if (isAbortError(error)) return 'CANCELLED';
+    if (error instanceof GenerationError) return error.code;
+    return 'UNKNOWN';
+}
+
+/**
+ * Wraps any caught value in a GenerationError, leaving GenerationErrors and AbortErrors as they are.
+ * @param error The caught value.
+ */
+export function toGenerationError(error: unknown): Error {
+    if (error instanceof GenerationError || isAbortError(error)) return error as Error;
+    const message = error instanceof Error ? error.message : JSON.stringify(error);
+    return new GenerationError('UNKNOWN', `The AI model failed to generate an image. Details: ${message}`, { cause: error });
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A base64-encoded image, split out of its data URL.
+ */
+export interface InlineImage {
+    mimeType: string;
+    data: string;
+}
+
+/**
+ * A single image-generation request: the source photos plus the prompt to apply to them.
+ */
+export interface ImageGenerationRequest {
+    /** The source photos, in the order the prompt refers to them. Usually just one. */
+    images: InlineImage[];
+    /** Era photos sent after the source images, to match their look rather than their content. */
+    referenceImages?: InlineImage[];
+    prompt: string;
+    /** Cancels the request; providers should reject with an AbortError when it fires. */
+    signal?: AbortSignal;
+}
+
+/**
+ * A backend capable of turning a source image and a prompt into a new image.
+ * Implementations should throw a `GenerationError` subclass when no image could be produced
+ * (e.g. `NoImageError` or `SafetyBlockedError`), so that `generateDecadeImage` can decide
+ * whether to retry with a fallback prompt and the UI can explain what went wrong.
+ */
+export interface ImageGenerationProvider {
+    /** A short identifier used for logging and configuration (e.g., "gemini"). */
+    readonly id: string;
+    /** The model that produces the images, recorded alongside each result (e.g., "gemini-2.5-flash-image-preview"). */
+    readonly model: string;
+    /**
+     * Generates an image for the given request. Multiple source images are composited into one result.
+     * @returns A promise that resolves to a data URL of the generated image.
+     */
+    generateImage(request: ImageGenerationRequest): Promise<string>;
+}
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ApiError, GoogleGenAI } from "@google/genai";
+import type { GenerateContentResponse, SafetyRating } from "@google/genai";
+import { isAbortError } from "../../lib/abort";
+import {
+    AuthError,
+    InvalidInputError,
+    NetworkError,
+    NoImageError,
+    RateLimitError,
+    SafetyBlockedError,
+    TransientServerError,
+    toGenerationError,
+} from "../generationErrors";
+import type { SafetyRatingInfo } from "../generationErrors";
+import type { ImageGenerationProvider, ImageGenerationRequest } from "../imageProvider";
+import { DEFAULT_RETRY_POLICY, createRetryCoordinator, withRetry } from "../retryPolicy";
+import type { RetryCoordinator, RetryPolicy } from "../retryPolicy";
+
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+// Finish reasons that mean the output was withheld by a safety or policy filter
+const SAFETY_FINISH_REASONS = new Set([
+    'SAFETY',
+    'RECITATION',
+    'BLOCKLIST',
+    'PROHIBITED_CONTENT',
+    'SPII',
+    'IMAGE_SAFETY',
+    'IMAGE_PROHIBITED_CONTENT',
+]);
+
+const toSafetyRatingInfo = (ratings: SafetyRating[] | undefined): SafetyRatingInfo[] =>
+    (ratings ?? []).map(({ category, probability, blocked }) => ({ category, probability, blocked }));
+
+/**
+ * Processes the Gemini API response, extracting the image or throwing a typed error if none is found.
+ * @param response The response from the generateContent call.
+ * @returns A data URL string for the generated image.
+ */
+function processGeminiResponse(response: GenerateContentResponse): string {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new SafetyBlockedError(`The prompt was blocked by safety filters (${blockReason}).`, {
+            blockReason,
+            safetyRatings: toSafetyRatingInfo(response.promptFeedback?.safetyRatings),
+        });
+    }
+
+    const candidate = response.candidates?.[0];
+    const imagePartFromResponse = candidate?.content?.parts?.find(part => part.inlineData);
+
+    if (imagePartFromResponse?.inlineData) {
+        const { mimeType, data } = imagePartFromResponse.inlineData;
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    const finishReason = candidate?.finishReason;
+    if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) {
+        throw new SafetyBlockedError(`The generated image was blocked by safety filters (${finishReason}).`, {
+            finishReason,
+            safetyRatings: toSafetyRatingInfo(candidate?.safetyRatings),
+        });
+    }
+
+    const textResponse = response.text;
+    console.error("API did not return an image. Response:", textResponse);
+    throw new NoImageError(textResponse, finishReason);
+}
+
+/**
+ * Reads the server's requested retry delay from an API error body.
+ * Gemini reports it as a google.rpc.RetryInfo detail, e.g. `{ "retryDelay": "12s" }`.
+ * @param message The ApiError message, which holds the JSON error body.
+ * @returns The delay in milliseconds, or undefined if none was given.
+ */
+function parseRetryDelay(message: string): number | undefined {
+    try {
+        const body = JSON.parse(message.slice(message.indexOf('{')));
+        const details: { '@type'?: string; retryDelay?: string }[] = body?.error?.details ?? [];
+        const retryDelay = details.find(detail => detail['@type']?.endsWith('RetryInfo'))?.retryDelay;
+        const seconds = retryDelay ? parseFloat(retryDelay) : NaN;
+        return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Maps an error thrown by the Gemini SDK to a typed generation error.
+ * @param error The caught value.
+ */
+function mapGeminiError(error: unknown): Error {
+    if (isAbortError(error)) return error as Error;
+
+    if (error instanceof ApiError) {
+        const { status, message } = error;
+        const retryAfterMs = parseRetryDelay(message);
+        if (status === 429) return new RateLimitError(`The Gemini API rate limit or quota was exceeded. ${message}`, { retryAfterMs, cause: error });
+        if (status === 401 || status === 403) return new AuthError(`The Gemini API rejected the API key. ${message}`, { cause: error });
+        if (status >= 500) return new TransientServerError(`The Gemini API had a server error (${status}). ${message}`, status, { retryAfterMs, cause: error });
+        if (status >= 400) return new InvalidInputError(`The Gemini API rejected the request (${status}). ${message}`, { cause: error });
+    }
+
+    // fetch() rejects with a TypeError when the network is unreachable
+    if (error instanceof TypeError || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+        return new NetworkError("Could not reach the Gemini API. Check your internet connection.", { cause: error });
+    }
+
+    return toGenerationError(error);
+}
+
+/**
+ * A wrapper for the Gemini API call that retries according to the given policy.
+ * Failures are rethrown as typed generation errors.
+ * @param ai The Gemini client to use.
+ * @param imageParts The image parts of the request payload (source photos, then references), in the order the prompt refers to them.
+ * @param textPart The text part of the request payload.
+ * @param options.policy Which errors to retry and how long to wait between attempts.
+ * @param options.coordinator Shares back-off between concurrent calls.
+ * @param options.signal An optional signal that cancels the request and any pending retry.
+ * @returns The GenerateContentResponse from the API.
+ */
+async function callGeminiWithRetry(
+    ai: GoogleGenAI,
+    imageParts: object[],
+    textPart: object,
+    { policy, coordinator, signal }: { policy: RetryPolicy; coordinator: RetryCoordinator; signal?: AbortSignal },
+): Promise<GenerateContentResponse> {
+    return withRetry(async (attempt) => {
+        try {
+            return await ai.models.generateContent({
+                model: GEMINI_IMAGE_MODEL,
+                contents: { parts: [...imageParts, textPart] },
+                config: { abortSignal: signal },
+            });
+        } catch (rawError) {
+            const error = mapGeminiError(rawError);
+            if (!isAbortError(error)) {
+                console.error(`Error calling Gemini API (Attempt ${attempt}/${policy.maxAttempts}):`, error);
+            }
+            throw error;
+        }
+    }, { policy, coordinator, signal });
+}
+
+interface GeminiProviderOptions {
+    /** Overrides parts of the default retry policy. */
+    retryPolicy?: Partial<RetryPolicy>;
+}
+
+/**
+ * Creates a provider backed by the Gemini image model.
+ * The client is created lazily so that a missing key only fails when Gemini is actually used.
+ * All requests made through the provider share one retry coordinator, so a rate limit
+ * hit by one request throttles the others too.
+ * @param apiKey The Gemini API key.
+ * @param options Optional behaviour tweaks such as the retry policy.
+ */
+export function createGeminiProvider(apiKey: string | undefined, options: GeminiProviderOptions = {}): ImageGenerationProvider {
+    let ai: GoogleGenAI | null = null;
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+    const coordinator = createRetryCoordinator();
+
+    const getClient = (): GoogleGenAI => {
+        if (!apiKey) {
+            throw new AuthError("API_KEY environment variable is not set");
+        }
+        if (!ai) {
+            ai = new GoogleGenAI({ apiKey });
+        }
+        return ai;
+    };
+
+    return {
+        id: 'gemini',
+        model: GEMINI_IMAGE_MODEL,
+        async generateImage({ images, referenceImages = [], prompt, signal }: ImageGenerationRequest): Promise<string> {
+            const imageParts = [...images, ...referenceImages].map(image => ({ inlineData: image }));
+            const textPart = { text: prompt };
+            const response = await callGeminiWithRetry(getClient(), imageParts, textPart, { policy, coordinator, signal });
+            return processGeminiResponse(response);
+        },
+    };
+}
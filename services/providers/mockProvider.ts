@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { sleep, throwIfAborted } from "../../lib/abort";
+import { loadImage } from "../../lib/imageUtils";
+import { InvalidInputError } from "../generationErrors";
+import { createSeededRandom, hashString } from "../../lib/random";
+import type { ImageGenerationProvider, ImageGenerationRequest } from "../imageProvider";
+
+interface MockProviderOptions {
+    /** Artificial latency in milliseconds, so loading states can be exercised offline. */
+    delayMs?: number;
+}
+
+/**
+ * Applies a sepia tone, a tint, grain and a vignette to the canvas in place.
+ * All randomness comes from `random`, so the same seed always yields the same pixels.
+ */
+function applyVintageEffect(ctx: CanvasRenderingContext2D, width: number, height: number, random: () => number) {
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const pixels = imageData.data;
+
+    // Derive a per-prompt look so different eras come back visibly different.
+    const sepiaStrength = 0.4 + random() * 0.6;
+    const warmth = (random() - 0.5) * 40;
+    const grainAmount = 10 + random() * 30;
+    const contrast = 0.8 + random() * 0.3;
+
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const maxDistance = Math.sqrt(centerX * centerX + centerY * centerY);
+
+    for (let i = 0; i < pixels.length; i += 4) {
+        const r = pixels[i];
+        const g = pixels[i + 1];
+        const b = pixels[i + 2];
+
+        const sepiaR = r * 0.393 + g * 0.769 + b * 0.189;
+        const sepiaG = r * 0.349 + g * 0.686 + b * 0.168;
+        const sepiaB = r * 0.272 + g * 0.534 + b * 0.131;
+
+        const pixelIndex = i / 4;
+        const x = pixelIndex % width;
+        const y = Math.floor(pixelIndex / width);
+        const dx = x - centerX;
+        const dy = y - centerY;
+        const vignette = 1 - Math.pow(Math.sqrt(dx * dx + dy * dy) / maxDistance, 2) * 0.6;
+        const grain = (random() - 0.5) * grainAmount;
+
+        const mix = (original: number, toned: number) =>
+            ((original + (toned - original) * sepiaStrength - 128) * contrast + 128 + grain) * vignette;
+
+        pixels[i] = mix(r, sepiaR) + warmth;
+        pixels[i + 1] = mix(g, sepiaG);
+        pixels[i + 2] = mix(b, sepiaB) - warmth;
+    }
+
+    ctx.putImageData(imageData, 0, 0);
+}
+
+/**
+ * Creates a deterministic, offline provider that fakes generation with canvas transforms.
+ * Reference images are ignored. The output depends only on the source images and the prompt, which makes it useful
+ * for developing, demoing and testing the app without an API key.
+ * @param options Optional behaviour tweaks such as simulated latency.
+ */
+export function createMockProvider(options: MockProviderOptions = {}): ImageGenerationProvider {
+    const { delayMs = 1500 } = options;
+
+    return {
+        id: 'mock',
+        model: 'mock-vintage-filter',
+        async generateImage({ images, prompt, signal }: ImageGenerationRequest): Promise<string> {
+            if (delayMs > 0) {
+                await sleep(delayMs, signal);
+            }
+
+            const imgs = await Promise.all(images.map(image => loadImage(`data:${image.mimeType};base64,${image.data}`))).catch(error => {
+                throw new InvalidInputError("The source image could not be decoded.", { cause: error });
+            });
+            if (imgs.length === 0) {
+                throw new InvalidInputError("No source image was provided.");
+            }
+            throwIfAborted(signal);
+
+            // Several people are "composited" by placing their photos side by side at the first photo's height
+            const height = imgs[0].naturalHeight;
+            const widths = imgs.map(img => Math.round(img.naturalWidth * height / img.naturalHeight));
+            const canvas = document.createElement('canvas');
+            canvas.width = widths.reduce((sum, width) => sum + width, 0);
+            canvas.height = height;
+
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                throw new Error('Could not get 2D canvas context');
+            }
+
+            let x = 0;
+            imgs.forEach((img, index) => {
+                ctx.drawImage(img, x, 0, widths[index], height);
+                x += widths[index];
+            });
+            applyVintageEffect(ctx, canvas.width, canvas.height, createSeededRandom(hashString(prompt)));
+
+            return canvas.toDataURL('image/jpeg', 0.9);
+        },
+    };
+}
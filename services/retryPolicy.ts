@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { sleep, throwIfAborted } from '../lib/abort';
+import { GenerationError, RateLimitError, TransientServerError } from './generationErrors';
+import type { GenerationErrorCode } from './generationErrors';
+
+/**
+ * How failed requests are retried.
+ */
+export interface RetryPolicy {
+    /** Total attempts, including the first one. */
+    maxAttempts: number;
+    initialDelayMs: number;
+    maxDelayMs: number;
+    backoffMultiplier: number;
+    /** Fraction of each delay that is randomized (0 = none, 1 = "full jitter"). */
+    jitter: number;
+    /** Error codes worth retrying. */
+    retryOn: GenerationErrorCode[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 4,
+    initialDelayMs: 1000,
+    maxDelayMs: 60_000,
+    backoffMultiplier: 2,
+    jitter: 0.3,
+    retryOn: ['SERVER_ERROR', 'RATE_LIMITED', 'NETWORK'],
+};
+
+/**
+ * Shares throttling across concurrent callers: when one request is told to back off,
+ * every request waits, so a quota hit slows the whole batch instead of each worker
+ * hammering the API on its own schedule.
+ */
+export interface RetryCoordinator {
+    /** Resolves once no back-off is in effect. */
+    waitForClearance(signal?: AbortSignal): Promise<void>;
+    /** Holds all callers back for at least `delayMs` from now. */
+    throttle(delayMs: number): void;
+}
+
+/**
+ * Creates a coordinator to share between all callers of one API.
+ */
+export function createRetryCoordinator(): RetryCoordinator {
+    let blockedUntil = 0;
+    return {
+        async waitForClearance(signal?: AbortSignal): Promise<void> {
+            // Loop because another caller may extend the block while we wait
+            while (Date.now() < blockedUntil) {
+                await sleep(blockedUntil - Date.now(), signal);
+            }
+            throwIfAborted(signal);
+        },
+        throttle(delayMs: number): void {
+            blockedUntil = Math.max(blockedUntil, Date.now() + delayMs);
+        },
+    };
+}
+
+/**
+ * Computes how long to wait before the next attempt.
+ * A delay requested by the server is honored as a minimum; otherwise exponential back-off is used.
+ * @param policy The retry policy.
+ * @param attempt The attempt that just failed (1-based).
+ * @param error The error it failed with.
+ * @param random Source of randomness for jitter.
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, error: unknown, random: () => number = Math.random): number {
+    const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1));
+    const jittered = backoff * (1 - policy.jitter) + backoff * policy.jitter * random();
+    const serverDelay = error instanceof RateLimitError || error instanceof TransientServerError ? error.retryAfterMs : undefined;
+    return Math.round(serverDelay !== undefined ? Math.max(serverDelay, jittered) : jittered);
+}
+
+/**
+ * Runs `operation`, retrying failures the policy allows.
+ * @param operation The call to make; receives the 1-based attempt number.
+ * @param options.policy The retry policy.
+ * @param options.coordinator Shared throttling between concurrent callers.
+ * @param options.signal Cancels the operation and any pending wait.
+ * @returns The operation's result.
+ */
+export async function withRetry<T>(
+    operation: (attempt: number) => Promise<T>,
+    { policy = DEFAULT_RETRY_POLICY, coordinator, signal }: { policy?: RetryPolicy; coordinator?: RetryCoordinator; signal?: AbortSignal } = {},
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        await coordinator?.waitForClearance(signal);
+        try {
+            return await operation(attempt);
+        } catch (error) {
+            throwIfAborted(signal);
+            const isRetryable = error instanceof GenerationError && policy.retryOn.includes(error.code);
+            if (!isRetryable || attempt >= policy.maxAttempts) {
+                throw error;
+            }
+
+            const delay = computeRetryDelay(policy, attempt, error);
+            console.log(`${error.code} on attempt ${attempt}/${policy.maxAttempts}. Retrying in ${delay}ms...`);
+            // Rate limits and overload apply to the whole key, so hold back every caller, not just this one
+            const isThrottle = error instanceof RateLimitError || (error instanceof TransientServerError && error.status === 503);
+            if (isThrottle && coordinator) {
+                coordinator.throttle(delay);
+            } else {
+                await sleep(delay, signal);
+            }
+        }
+    }
+}
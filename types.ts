@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Era } from './lib/eraCatalog';
+import type { PromptSettings } from './lib/promptTemplate';
+import type { SubjectSettings } from './lib/subjects';
+import type { CardCaption } from './lib/captions';
+import type { GenerationErrorCode } from './services/generationErrors';
+
+export type ImageStatus = 'pending' | 'done' | 'error';
+
+/**
+ * One generated image for an era. Regenerating an era adds a variant rather than replacing it.
+ */
+export interface ImageVariant {
+    url: string;
+    /** The prompt that produced `url` (the fallback prompt if that was needed). */
+    prompt: string;
+    usedFallback: boolean;
+    /** The image generation provider that produced `url` (e.g., "gemini"). */
+    provider: string;
+    /** The model that produced `url`; missing for sessions saved before it was recorded. */
+    model?: string;
+    /** How many era reference images were sent with the source; missing for sessions saved before references. */
+    referenceCount?: number;
+    /** Epoch milliseconds at which the image finished generating. */
+    generatedAt: number;
+}
+
+export interface GeneratedImage {
+    /** The status of the most recent generation request for this era. */
+    status: ImageStatus;
+    error?: string;
+    /** What kind of failure `error` describes, so the UI can explain it and offer the right action. */
+    errorCode?: GenerationErrorCode;
+    variants: ImageVariant[];
+    /** The variant the user marked as their favorite; the latest variant when unset. */
+    favoriteIndex?: number;
+}
+
+/**
+ * Where the user left a card on the desktop results board.
+ */
+export interface CardPlacement {
+    /** Horizontal center of the card, as a fraction of the board's width. */
+    x: number;
+    /** Vertical center of the card, as a fraction of the board's height. */
+    y: number;
+    /** Degrees, clockwise. */
+    rotation: number;
+    /** Stacking order; higher cards sit on top. */
+    zIndex: number;
+}
+
+/**
+ * A saved generation session: the source photo plus everything generated from it.
+ */
+export interface Session {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    sourceImage: string;
+    /** The eras that were generated, in display order. */
+    eras: Era[];
+    results: Record<string, GeneratedImage>;
+    promptSettings: PromptSettings;
+    /** Group photo markers or the second person's photo. Missing for single-person sessions saved before subject modes. */
+    subject?: SubjectSettings;
+    /**
+     * Seeds the album's rotations, offsets and shadows so re-exports are identical.
+     * Missing for sessions saved before layouts were seeded.
+     */
+    layoutSeed?: number;
+    /** Card placements by era id, for cards the user has dragged on the desktop board. */
+    arrangement?: Record<string, CardPlacement>;
+    /** The user's caption and date stamp edits, by era id. */
+    captions?: Record<string, CardCaption>;
+}